@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { enableConditionalRequests } from './requestCache';
 
 const GITHUB_AUTH_PROVIDER_ID = 'github';
 // Define the scopes needed for your extension.
@@ -29,8 +30,175 @@ export async function getOctokit(session?: vscode.AuthenticationSession) {
 
     if (session) {
         const { Octokit } = await import("@octokit/rest"); // Dynamic import
-        return new Octokit({ auth: session.accessToken });
+        const octokit = new Octokit({ auth: session.accessToken });
+        enableThrottling(octokit);
+        enableConditionalRequests(octokit, session.accessToken);
+        return octokit;
     } else {
         return undefined;
     }
-}
\ No newline at end of file
+}
+
+
+// RATE LIMITING AND RETRIES
+// State is module level because getOctokit() hands out a new instance on every call
+
+type OctokitInstance = InstanceType<typeof import("@octokit/rest").Octokit>;
+
+interface RateLimitInfo {
+    limit: number;
+    remaining: number;
+    reset: number; // Epoch seconds
+}
+
+const MAX_CONCURRENT_REQUESTS = 6;
+const MAX_RETRIES = 3;
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 1000; // Longer primary limit waits fail fast instead of hanging the UI
+const SECONDARY_LIMIT_DEFAULT_WAIT_MS = 60 * 1000; // GitHub asks to wait at least a minute without retry-after
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+
+const rateLimits = new Map<string, RateLimitInfo>(); // Keyed by x-ratelimit-resource (core, graphql, search)
+const requestQueue: (() => void)[] = [];
+let activeRequests = 0;
+let blockedUntil = 0; // Epoch ms, set while GitHub asked us to pause
+let rateLimitStatusBarItem: vscode.StatusBarItem | undefined;
+
+export function registerRateLimitStatusBar(context: vscode.ExtensionContext) {
+    rateLimitStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    rateLimitStatusBarItem.name = 'GitHub API Rate Limit';
+    context.subscriptions.push(rateLimitStatusBarItem);
+    updateRateLimitStatusBar();
+}
+
+function enableThrottling(octokit: OctokitInstance) {
+    octokit.hook.wrap('request', async (request, options) => {
+        for (let attempt = 0; ; attempt++) {
+            await waitUntilUnblocked();
+            await acquireRequestSlot();
+            let retryDelayMs: number;
+            try {
+                const response = await request(options);
+                recordRateLimit(response.headers);
+                return response;
+            } catch (error: any) {
+                if (error?.response?.headers) {
+                    recordRateLimit(error.response.headers);
+                }
+                const delayMs = getRetryDelay(error, options.method, attempt);
+                if (delayMs === undefined) {
+                    throw error;
+                }
+                retryDelayMs = delayMs;
+                console.warn(`GitHub request ${options.method} ${options.url} failed with ${error?.status ?? 'network error'}, retrying in ${Math.round(retryDelayMs / 1000)}s (attempt ${attempt + 1}/${MAX_RETRIES})`);
+            } finally {
+                releaseRequestSlot();
+            }
+            // Sleep without holding a slot so other requests are not stuck behind this one
+            await sleep(retryDelayMs);
+        }
+    });
+}
+
+// Returns how long to wait before retrying, or undefined if the error should surface
+export function getRetryDelay(error: any, method: string, attempt: number): number | undefined {
+    if (attempt >= MAX_RETRIES) {
+        return undefined;
+    }
+    const status: number | undefined = error?.status;
+    const headers = error?.response?.headers || {};
+
+    if (status === 403 || status === 429) {
+        // Secondary rate limit: the request was rejected before running, so any method can be retried
+        const retryAfter = Number(headers['retry-after']);
+        if (retryAfter > 0 || /secondary rate limit/i.test(error?.message || '')) {
+            const waitMs = retryAfter > 0 ? retryAfter * 1000 : SECONDARY_LIMIT_DEFAULT_WAIT_MS;
+            blockedUntil = Math.max(blockedUntil, Date.now() + Math.min(waitMs, MAX_RATE_LIMIT_WAIT_MS));
+            if (waitMs > MAX_RATE_LIMIT_WAIT_MS) {
+                error.message = `GitHub API secondary rate limit exceeded. Try again in ${Math.ceil(waitMs / 60000)} minutes.`;
+                return undefined;
+            }
+            return waitMs;
+        }
+        // Primary rate limit: wait for the window to reset if that is soon enough
+        if (headers['x-ratelimit-remaining'] === '0') {
+            const resetMs = Number(headers['x-ratelimit-reset']) * 1000;
+            const waitMs = resetMs - Date.now() + 1000;
+            if (waitMs > 0 && waitMs <= MAX_RATE_LIMIT_WAIT_MS) {
+                return waitMs;
+            }
+            error.message = `GitHub API rate limit exceeded. It resets at ${new Date(resetMs).toLocaleTimeString()}.`;
+        }
+        return undefined;
+    }
+
+    // Transient server and network errors, only safe to repeat for reads
+    const isIdempotent = method === 'GET' || method === 'HEAD';
+    const isTransient = status === undefined || RETRYABLE_STATUSES.includes(status);
+    if (isIdempotent && isTransient) {
+        return 1000 * 2 ** attempt + Math.random() * 500; // 1s, 2s, 4s plus jitter
+    }
+    return undefined;
+}
+
+function recordRateLimit(headers: Record<string, any>) {
+    const limit = Number(headers['x-ratelimit-limit']);
+    const remaining = Number(headers['x-ratelimit-remaining']);
+    const reset = Number(headers['x-ratelimit-reset']);
+    if (isNaN(limit) || isNaN(remaining) || isNaN(reset)) {
+        return;
+    }
+    rateLimits.set(headers['x-ratelimit-resource'] || 'core', { limit, remaining, reset });
+    // Hold further requests until the reset instead of letting them fail
+    if (remaining === 0) {
+        blockedUntil = Math.max(blockedUntil, Math.min(reset * 1000, Date.now() + MAX_RATE_LIMIT_WAIT_MS));
+    }
+    updateRateLimitStatusBar();
+}
+
+function updateRateLimitStatusBar() {
+    if (!rateLimitStatusBarItem) { return; }
+    const core = rateLimits.get('core');
+    if (!core) {
+        rateLimitStatusBarItem.hide();
+        return;
+    }
+
+    rateLimitStatusBarItem.text = `$(github) ${core.remaining.toLocaleString()}/${core.limit.toLocaleString()}`;
+    rateLimitStatusBarItem.tooltip = Array.from(rateLimits.entries())
+        .map(([resource, info]) => `${resource}: ${info.remaining} of ${info.limit} requests left, resets at ${new Date(info.reset * 1000).toLocaleTimeString()}`)
+        .join('\n');
+    rateLimitStatusBarItem.backgroundColor = core.remaining < core.limit * 0.1
+        ? new vscode.ThemeColor('statusBarItem.warningBackground')
+        : undefined;
+    rateLimitStatusBarItem.show();
+}
+
+async function acquireRequestSlot() {
+    if (activeRequests >= MAX_CONCURRENT_REQUESTS) {
+        // The releasing request hands its slot over, so activeRequests stays unchanged
+        await new Promise<void>(resolve => requestQueue.push(resolve));
+        return;
+    }
+    activeRequests++;
+}
+
+function releaseRequestSlot() {
+    const next = requestQueue.shift();
+    if (next) {
+        next();
+    } else {
+        activeRequests--;
+    }
+}
+
+async function waitUntilUnblocked() {
+    const waitMs = blockedUntil - Date.now();
+    if (waitMs > 0) {
+        console.log(`Waiting ${Math.round(waitMs / 1000)}s for the GitHub rate limit before sending request.`);
+        await sleep(waitMs);
+    }
+}
+
+function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
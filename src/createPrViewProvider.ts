@@ -128,8 +128,8 @@ export class CreatePrViewProvider implements vscode.WebviewViewProvider {
                     if (diffData && diffData.owner && diffData.repo && diffData.base && diffData.head && diffData.filename && diffData.status) {
                         console.log(`Provider received showCreatePrDiff request for: ${diffData.filename} (${diffData.base}...${diffData.head})`);
                         showDiffBetweenBranches(
-                            this._extensionContext, diffData.owner, diffData.repo,
-                            diffData.base, diffData.head, diffData.filename, diffData.status
+                            diffData.owner, diffData.repo,
+                            diffData.base, diffData.head, diffData.filename, diffData.status, diffData.previousFilename
                         );
                     } else {
                         console.error("Received incomplete data for showCreatePrDiff", diffData);
@@ -402,6 +402,9 @@ export class CreatePrViewProvider implements vscode.WebviewViewProvider {
                  return files.map((file) => ({
                     path: file.filename,
                     status: this.mapComparisonStatus(file.status),
+                    previousPath: file.previous_filename,
+                    additions: file.additions,
+                    deletions: file.deletions,
                  }));
             } else if (response.data.status === 'identical') {
                 console.log(`[Provider] Branches ${base} and ${head} are identical.`);
@@ -556,7 +559,12 @@ export class CreatePrViewProvider implements vscode.WebviewViewProvider {
                     </div>
 
                      <div class="form-group">
-                        <label>Files Changed (<span id="files-changed-count">0</span>):</label>
+                        <div class="files-changed-header">
+                            <label>Files Changed (<span id="files-changed-count">0</span>):</label>
+                            <button id="file-layout-toggle" type="button" class="icon-button" title="View as List">
+                                <span class="codicon codicon-list-flat"></span>
+                            </button>
+                        </div>
                         <div id="files-changed-list" class="files-list" aria-live="polite">
                             <p>Select branches to compare...</p>
                         </div>
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
-import { getGitHubSession } from './auth';
-import { PrDataProvider, PullRequestItem, PullRequestInfo } from './prDataProvider'; // Ensure PullRequestInfo is exported/imported
+import { getGitHubSession, registerRateLimitStatusBar } from './auth';
+import { PrDataProvider, PullRequestItem, PullRequestInfo, ChangedFileItem, CategoryItem } from './prDataProvider'; // Ensure PullRequestInfo is exported/imported
 import type { Endpoints } from "@octokit/types";
 // import type { PullRequestInfo } from './prDataProvider'; // No longer needed if exported above
 import { CreatePrViewProvider } from './createPrViewProvider';
@@ -9,6 +9,9 @@ import { isGitRepositoryAvailable, getGitApi } from './gitUtils';
 import * as PrDescription from './prDescriptionProvider';
 // <<<< ADD Import for the new provider function >>>>
 import { createOrShowReviewResultPanel } from './reviewResultViewProvider';
+import { registerReviewCommentController } from './reviewCommentController';
+import { checkoutPullRequest } from './prCheckout';
+import { registerPrContentProvider, refreshPrContent } from './prContentProvider';
 
 // Removed import for ReviewLocalRepoViewProvider
 
@@ -37,7 +40,24 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Register Tree Data Provider
     prDataProvider = new PrDataProvider();
-    context.subscriptions.push(vscode.window.registerTreeDataProvider('yourPrViewId', prDataProvider));
+    const prTreeView = vscode.window.createTreeView('yourPrViewId', { treeDataProvider: prDataProvider, manageCheckboxStateManually: true });
+    context.subscriptions.push(prTreeView);
+    // File checkboxes mirror GitHub's "Viewed" state
+    context.subscriptions.push(prTreeView.onDidChangeCheckboxState(async event => {
+        for (const [item, state] of event.items) {
+            if (item instanceof ChangedFileItem) {
+                await prDataProvider?.setFileViewed(item, state === vscode.TreeItemCheckboxState.Checked);
+            }
+        }
+    }));
+    PrDescription.setPrDataProvider(prDataProvider);
+
+    // Rebuild the categories as soon as the user edits their queries
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('yourExtension.queries')) {
+            prDataProvider?.refresh();
+        }
+    }));
 
     // Register Create PR View Provider
     createPrViewProviderInstance = new CreatePrViewProvider(context);
@@ -45,9 +65,31 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.window.registerWebviewViewProvider(CreatePrViewProvider.viewType, createPrViewProviderInstance)
     );
 
+    // Register Comment Controller for inline review comments on PR diffs
+    registerReviewCommentController(context);
+
+    // Serves file contents for PR diffs under the pr: scheme
+    registerPrContentProvider(context);
+
+    // Status bar item showing the remaining GitHub API quota
+    registerRateLimitStatusBar(context);
+
     // Register Commands
     context.subscriptions.push(vscode.commands.registerCommand('yourExtension.refreshPrView', () => {
         prDataProvider?.refresh();
+        refreshPrContent();
+    }));
+
+    // Swap between folder tree and flat list for changed files; the context key picks the title bar button
+    const setFileLayout = (layout: 'tree' | 'flat') => {
+        prDataProvider?.setFileLayout(layout);
+        vscode.commands.executeCommand('setContext', 'yourExtension:fileLayout', layout);
+    };
+    context.subscriptions.push(vscode.commands.registerCommand('yourExtension.showFilesAsTree', () => setFileLayout('tree')));
+    context.subscriptions.push(vscode.commands.registerCommand('yourExtension.showFilesAsList', () => setFileLayout('flat')));
+
+    context.subscriptions.push(vscode.commands.registerCommand('yourExtension.loadMorePullRequests', async (category: CategoryItem) => {
+        await prDataProvider?.loadMorePullRequests(category);
     }));
 
     context.subscriptions.push(vscode.commands.registerCommand('yourExtension.showCreatePullRequestView', async () => {
@@ -66,11 +108,45 @@ export function activate(context: vscode.ExtensionContext) {
         }
     ));
 
+    context.subscriptions.push(vscode.commands.registerCommand(
+        'yourExtension.viewAllChanges',
+        async (itemOrPrInfo: PullRequestItem | PullRequestInfo) => {
+            const prInfo = (itemOrPrInfo instanceof PullRequestItem) ? itemOrPrInfo.prInfo : itemOrPrInfo;
+            if (!prInfo) {
+                vscode.window.showErrorMessage("Select a pull request in the tree to view its changes.");
+                return;
+            }
+            await PrDescription.showAllChangesForPr(prInfo);
+        }
+    ));
+
+    context.subscriptions.push(vscode.commands.registerCommand(
+        'yourExtension.checkoutPullRequest',
+        async (item: PullRequestItem) => {
+            if (!(item instanceof PullRequestItem)) {
+                vscode.window.showErrorMessage("Select a pull request in the tree to check it out.");
+                return;
+            }
+            const checkedOut = await checkoutPullRequest(item.prInfo);
+            if (checkedOut) {
+                prDataProvider?.refresh(); // Move the checked-out marker
+            }
+        }
+    ));
+
+    context.subscriptions.push(vscode.commands.registerCommand(
+        'yourExtension.nextUnviewedFile',
+        async (item?: PullRequestItem) => {
+            await prDataProvider?.openNextUnviewedFile(item instanceof PullRequestItem ? item.prInfo : undefined);
+        }
+    ));
+
     context.subscriptions.push(vscode.commands.registerCommand(
         'yourExtension.viewSpecificFileDiff',
         async (prInfo: PullRequestInfo, fileData: ChangedFileFromApi) => {
             if (prInfo && fileData) {
-                await PrDescription.fetchAndShowDiffForFile(context, prInfo, fileData);
+                prDataProvider?.recordOpenedFile(prInfo, fileData.filename);
+                await PrDescription.fetchAndShowDiffForFile(prInfo, fileData);
             } else {
                 console.error("viewSpecificFileDiff called with invalid arguments:", prInfo, fileData);
                 vscode.window.showErrorMessage("Could not get file information to show diff.");
@@ -97,59 +173,14 @@ export function activate(context: vscode.ExtensionContext) {
     }));
 
     vscode.commands.executeCommand('setContext', 'yourExtension:createPrViewVisible', false);
+    vscode.commands.executeCommand('setContext', 'yourExtension:fileLayout', prDataProvider.getFileLayout());
 
     console.log("Extension commands and providers registered.");
 }
 
-// Keep createTempFile function
-let tempFiles: vscode.Uri[] = [];
-export async function createTempFile(context: vscode.ExtensionContext, fileName: string, content: string): Promise<vscode.Uri> {
-    // Ensure filename is safe for filesystem
-    const safeFileName = fileName
-        .replace(/[^a-z0-9_.-]/gi, '_') // Replace unsafe characters with underscore
-        .replace(/_+/g, '_'); // Collapse multiple underscores
-
-    try {
-        // Check if directory exists, create if not
-        try {
-             await vscode.workspace.fs.stat(context.globalStorageUri);
-        } catch {
-             console.log(`Creating global storage directory: ${context.globalStorageUri.fsPath}`);
-             await vscode.workspace.fs.createDirectory(context.globalStorageUri);
-        }
-
-        const uri = vscode.Uri.joinPath(context.globalStorageUri, safeFileName);
-        await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
-
-        if (!tempFiles.some(existingUri => existingUri.toString() === uri.toString())) {
-            tempFiles.push(uri);
-        }
-        console.log(`Created temp file: ${uri.fsPath}`);
-        return uri;
-    } catch (e) {
-         console.error(`Error creating temp file ${safeFileName}:`, e);
-         throw e; // Re-throw error after logging
-    }
-}
-
 // =================================
 // EXTENSION DEACTIVATION
 // =================================
 export function deactivate() {
-    Promise.allSettled(
-        tempFiles.map(uri => {
-            console.log(`Attempting to delete temp file: ${uri.fsPath}`);
-            return Promise.resolve(vscode.workspace.fs.delete(uri, { useTrash: false })).catch(e => { // Added useTrash: false
-                console.warn(`Failed to delete temp file ${uri.fsPath}:`, e);
-            });
-        })
-    )
-    .then((results) => {
-        const deletedCount = results.filter(r => r.status === 'fulfilled').length;
-        const failedCount = results.filter(r => r.status === 'rejected').length;
-        console.log(`Cleaned up ${deletedCount} temporary diff files. ${failedCount > 0 ? `${failedCount} failed.` : ''}`);
-    });
-    tempFiles = []; // Clear the array
-
     console.log("Your PR extension deactivated.");
 }
\ No newline at end of file
@@ -0,0 +1,82 @@
+// Groups changed files by directory. Shared by the PR tree view and the Create PR webview,
+// so it must not import 'vscode'.
+
+export interface FileTreeFolder<T> {
+    name: string; // May span several segments ("src/webview") when single-child folders are compressed
+    path: string;
+    folders: FileTreeFolder<T>[];
+    files: T[];
+    additions: number; // Totals over every file below this folder
+    deletions: number;
+}
+
+export interface FileStats {
+    additions?: number;
+    deletions?: number;
+}
+
+export function buildFileTree<T extends FileStats>(files: T[], getPath: (file: T) => string): FileTreeFolder<T> {
+    const root: FileTreeFolder<T> = { name: '', path: '', folders: [], files: [], additions: 0, deletions: 0 };
+
+    // Inserting in tree order keeps every folder's children sorted
+    [...files].sort((a, b) => compareTreeOrder(getPath(a), getPath(b))).forEach(file => {
+        const segments = getPath(file).split('/');
+        segments.pop(); // File name
+        let folder = root;
+        addStats(folder, file);
+        segments.forEach(segment => {
+            const path = folder.path ? `${folder.path}/${segment}` : segment;
+            let child = folder.folders.find(f => f.path === path);
+            if (!child) {
+                child = { name: segment, path, folders: [], files: [], additions: 0, deletions: 0 };
+                folder.folders.push(child);
+            }
+            folder = child;
+            addStats(folder, file);
+        });
+        folder.files.push(file);
+    });
+
+    root.folders = root.folders.map(compressFolder);
+    return root;
+}
+
+// Order of paths in the file tree: folders before files at each level, then by name.
+// Flat lists use it too so every view walks the files in the same order.
+export function compareTreeOrder(a: string, b: string): number {
+    const aSegments = a.split('/');
+    const bSegments = b.split('/');
+    for (let i = 0; i < Math.min(aSegments.length, bSegments.length); i++) {
+        const aIsFile = i === aSegments.length - 1;
+        const bIsFile = i === bSegments.length - 1;
+        if (aIsFile !== bIsFile) {
+            return aIsFile ? 1 : -1;
+        }
+        if (aIsFile || aSegments[i] !== bSegments[i]) {
+            return aSegments[i].localeCompare(bSegments[i]);
+        }
+    }
+    return 0;
+}
+
+function addStats(folder: FileTreeFolder<FileStats>, file: FileStats) {
+    folder.additions += file.additions || 0;
+    folder.deletions += file.deletions || 0;
+}
+
+// Merges chains of folders that only contain a single folder, like VS Code's compact folders
+function compressFolder<T>(folder: FileTreeFolder<T>): FileTreeFolder<T> {
+    while (folder.files.length === 0 && folder.folders.length === 1) {
+        const child = folder.folders[0];
+        folder = { ...child, name: `${folder.name}/${child.name}` };
+    }
+    return { ...folder, folders: folder.folders.map(compressFolder) };
+}
+
+// "+12 -3", or '' when the stats are not known
+export function formatFileStats(stats: FileStats): string {
+    if (stats.additions === undefined && stats.deletions === undefined) {
+        return '';
+    }
+    return `+${stats.additions || 0} -${stats.deletions || 0}`;
+}
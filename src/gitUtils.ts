@@ -1,9 +1,10 @@
 import * as vscode from 'vscode';
+import type { API, GitExtension, Repository } from './typings/git';
 
 // Get the Git API
-export async function getGitApi() {
+export async function getGitApi(): Promise<API | undefined> {
     try {
-        const extension = vscode.extensions.getExtension('vscode.git');
+        const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
         if (!extension) {
             console.warn('Git extension (vscode.git) not found.');
             return undefined;
@@ -40,4 +41,72 @@ export async function getCurrentRepositoryPath(): Promise<string | undefined> {
         return api.repositories[0].rootUri.fsPath;
     }
     return undefined;
-}
\ No newline at end of file
+}
+
+// Git config key linking a local branch to the PR it was checked out from
+export const PR_NUMBER_CONFIG_KEY = 'github-pr-number';
+
+export function parseGitHubRemote(url: string | undefined): { owner: string; repo: string } | undefined {
+    const match = url?.match(/github\.com[/:](.*?)\/(.*?)(?:\.git)?\/?$/);
+    return match ? { owner: match[1], repo: match[2] } : undefined;
+}
+
+// The PR head a local branch must belong to before it may be deleted
+export interface PrHeadBranch {
+    prNumber: number;
+    headOwner?: string; // Undefined when the head repository was deleted
+    headRepo?: string;
+    headRef: string;
+}
+
+// Deletes the local branches that belong to a PR head in every open repository: branches
+// tagged with the PR number at checkout, or tracking the head ref on the head repository.
+// Unrelated branches with the same name and the checked-out branch are left alone.
+// Returns the names of the deleted branches.
+export async function deleteLocalPrBranches(head: PrHeadBranch): Promise<string[]> {
+    const api = await getGitApi();
+    if (!api) {
+        return [];
+    }
+
+    const deleted: string[] = [];
+    for (const repository of api.repositories) {
+        const localBranches = await repository.getBranches({ remote: false });
+        for (const ref of localBranches) {
+            const branchName = ref.name;
+            if (!branchName || !(await isPrHeadBranch(repository, branchName, head))) {
+                continue;
+            }
+            if (repository.state.HEAD?.name === branchName) {
+                vscode.window.showWarningMessage(`Local branch '${branchName}' is checked out, switch to another branch to delete it.`);
+                continue;
+            }
+            // Force is needed because squash and rebase merges leave the branch unmerged locally
+            await repository.deleteBranch(branchName, true);
+            deleted.push(branchName);
+        }
+    }
+    return deleted;
+}
+
+async function isPrHeadBranch(repository: Repository, branchName: string, head: PrHeadBranch): Promise<boolean> {
+    try {
+        const prNumber = await repository.getConfig(`branch.${branchName}.${PR_NUMBER_CONFIG_KEY}`);
+        if (Number(prNumber) === head.prNumber) {
+            return true;
+        }
+    } catch {
+        // Key not set, fall through to the upstream check
+    }
+
+    if (!head.headOwner || !head.headRepo) {
+        return false;
+    }
+    const { upstream } = await repository.getBranch(branchName);
+    if (!upstream || upstream.name !== head.headRef) {
+        return false; // Untracked or tracking another branch
+    }
+    const remote = repository.state.remotes.find(r => r.name === upstream.remote);
+    const parsed = parseGitHubRemote(remote?.fetchUrl);
+    return parsed?.owner.toLowerCase() === head.headOwner.toLowerCase() && parsed?.repo.toLowerCase() === head.headRepo.toLowerCase();
+}
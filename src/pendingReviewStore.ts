@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import { v4 as uuidv4 } from 'uuid';
+import type { PullRequestInfo } from './prDataProvider';
+
+// A draft inline comment that has not been sent to GitHub yet
+export interface DraftReviewComment {
+    id: string; // Local id, GitHub assigns the real one on submit
+    path: string;
+    body: string;
+    line: number;
+    side: 'LEFT' | 'RIGHT';
+    start_line?: number;
+    start_side?: 'LEFT' | 'RIGHT';
+    createdAt: string;
+}
+
+export interface PendingReview {
+    startedAt: string;
+    comments: DraftReviewComment[];
+}
+
+// Fired with the PR whose pending review was started, changed, submitted or discarded
+const pendingReviewChangedEmitter = new vscode.EventEmitter<PullRequestInfo>();
+export const onDidChangePendingReview = pendingReviewChangedEmitter.event;
+
+// Pending reviews live in workspaceState so drafts survive a window reload
+function getStorageKey(prInfo: PullRequestInfo): string {
+    return `pendingReview:${prInfo.repoOwner}/${prInfo.repoName}#${prInfo.number}`;
+}
+
+export function getPendingReview(context: vscode.ExtensionContext, prInfo: PullRequestInfo): PendingReview | undefined {
+    return context.workspaceState.get<PendingReview>(getStorageKey(prInfo));
+}
+
+export async function startPendingReview(context: vscode.ExtensionContext, prInfo: PullRequestInfo): Promise<PendingReview> {
+    const existing = getPendingReview(context, prInfo);
+    if (existing) {
+        return existing;
+    }
+    const pendingReview: PendingReview = { startedAt: new Date().toISOString(), comments: [] };
+    await context.workspaceState.update(getStorageKey(prInfo), pendingReview);
+    pendingReviewChangedEmitter.fire(prInfo);
+    return pendingReview;
+}
+
+export async function addDraftComment(
+    context: vscode.ExtensionContext,
+    prInfo: PullRequestInfo,
+    draft: Omit<DraftReviewComment, 'id' | 'createdAt'>
+): Promise<DraftReviewComment | undefined> {
+    const pendingReview = getPendingReview(context, prInfo);
+    if (!pendingReview) {
+        return undefined;
+    }
+    const draftComment: DraftReviewComment = { ...draft, id: uuidv4(), createdAt: new Date().toISOString() };
+    pendingReview.comments.push(draftComment);
+    await context.workspaceState.update(getStorageKey(prInfo), pendingReview);
+    pendingReviewChangedEmitter.fire(prInfo);
+    return draftComment;
+}
+
+export async function removeDraftComment(context: vscode.ExtensionContext, prInfo: PullRequestInfo, draftId: string) {
+    const pendingReview = getPendingReview(context, prInfo);
+    if (!pendingReview) {
+        return;
+    }
+    pendingReview.comments = pendingReview.comments.filter(comment => comment.id !== draftId);
+    await context.workspaceState.update(getStorageKey(prInfo), pendingReview);
+    pendingReviewChangedEmitter.fire(prInfo);
+}
+
+export async function clearPendingReview(context: vscode.ExtensionContext, prInfo: PullRequestInfo) {
+    await context.workspaceState.update(getStorageKey(prInfo), undefined);
+    pendingReviewChangedEmitter.fire(prInfo);
+}
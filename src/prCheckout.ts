@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import { getOctokit } from './auth';
+import { getGitApi, parseGitHubRemote, PR_NUMBER_CONFIG_KEY } from './gitUtils';
+import type { PullRequestInfo } from './prDataProvider';
+import type { Remote, Repository } from './typings/git';
+
+// Matched by URL, since remotes are often named differently or use another protocol
+function findRemoteFor(repository: Repository, owner: string, repo: string): Remote | undefined {
+    const pointsToRepo = (url: string | undefined) => {
+        const parsed = parseGitHubRemote(url);
+        return parsed?.owner.toLowerCase() === owner.toLowerCase() && parsed?.repo.toLowerCase() === repo.toLowerCase();
+    };
+    return repository.state.remotes.find(remote => pointsToRepo(remote.fetchUrl) || pointsToRepo(remote.pushUrl));
+}
+
+// `name`, or `name-2`, `name-3`... when a remote with that name already points elsewhere
+function getUnusedRemoteName(repository: Repository, name: string): string {
+    const taken = new Set(repository.state.remotes.map(remote => remote.name));
+    let candidate = name;
+    for (let i = 2; taken.has(candidate); i++) {
+        candidate = `${name}-${i}`;
+    }
+    return candidate;
+}
+
+// Fetches refs/pull/N/head into a local branch and checks it out.
+// Branches from forks track the fork, which is added as a remote when missing.
+export async function checkoutPullRequest(prInfo: PullRequestInfo): Promise<boolean> {
+    const api = await getGitApi();
+    const repository = api?.repositories[0];
+    if (!repository) {
+        vscode.window.showErrorMessage("Cannot check out pull request: No Git repository found in the workspace.");
+        return false;
+    }
+
+    const octokit = await getOctokit();
+    if (!octokit) {
+        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+        return false;
+    }
+
+    const baseRemote = findRemoteFor(repository, prInfo.repoOwner, prInfo.repoName);
+    if (!baseRemote) {
+        vscode.window.showErrorMessage(`Cannot check out pull request: No remote points to ${prInfo.repoOwner}/${prInfo.repoName}.`);
+        return false;
+    }
+
+    try {
+        return await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Checking out PR #${prInfo.number}...`, cancellable: false }, async (progress) => {
+            const { data: pullData } = await octokit.pulls.get({ owner: prInfo.repoOwner, repo: prInfo.repoName, pull_number: prInfo.number });
+            const headRepo = pullData.head.repo;
+            const isFork = !!headRepo && headRepo.full_name.toLowerCase() !== `${prInfo.repoOwner}/${prInfo.repoName}`.toLowerCase();
+
+            // Fork branches are prefixed with the fork owner to avoid clashing with our own branches
+            const localBranch = !headRepo
+                ? `pr/${prInfo.number}` // Fork was deleted, only the pull ref is left
+                : isFork ? `${headRepo.owner.login}/${pullData.head.ref}` : pullData.head.ref;
+
+            // The pull ref always exists on the base repository, even for forks
+            progress.report({ message: `Fetching refs/pull/${prInfo.number}/head...` });
+            const pullTrackingRef = `${baseRemote.name}/pr/${prInfo.number}`;
+            await repository.fetch(baseRemote.name, `+refs/pull/${prInfo.number}/head:refs/remotes/${pullTrackingRef}`);
+
+            // Work out which remote branch the local branch should track
+            let upstreamRemote: string | undefined;
+            if (headRepo && isFork) {
+                upstreamRemote = findRemoteFor(repository, headRepo.owner.login, headRepo.name)?.name;
+                if (!upstreamRemote) {
+                    progress.report({ message: `Adding remote for fork ${headRepo.full_name}...` });
+                    upstreamRemote = getUnusedRemoteName(repository, headRepo.owner.login);
+                    await repository.addRemote(upstreamRemote, headRepo.clone_url);
+                }
+            } else if (headRepo) {
+                upstreamRemote = baseRemote.name;
+            }
+            if (upstreamRemote) {
+                progress.report({ message: `Fetching ${upstreamRemote}/${pullData.head.ref}...` });
+                await repository.fetch(upstreamRemote, pullData.head.ref);
+            }
+
+            progress.report({ message: `Checking out ${localBranch}...` });
+            const branchExists = await repository.getBranch(localBranch).then(() => true, () => false);
+            if (branchExists) {
+                await repository.checkout(localBranch);
+            } else {
+                await repository.createBranch(localBranch, true, upstreamRemote ? `${upstreamRemote}/${pullData.head.ref}` : pullTrackingRef);
+            }
+            if (upstreamRemote) {
+                await repository.setBranchUpstream(localBranch, `refs/remotes/${upstreamRemote}/${pullData.head.ref}`);
+                if (branchExists) {
+                    await repository.pull(); // Bring an older checkout up to date with the PR
+                }
+            } else if (branchExists) {
+                // No head branch to track, so move the older checkout to the pull ref fetched above
+                await repository.merge(pullTrackingRef);
+            }
+            await repository.setConfig(`branch.${localBranch}.${PR_NUMBER_CONFIG_KEY}`, String(prInfo.number));
+
+            vscode.window.showInformationMessage(`Checked out PR #${prInfo.number} as branch '${localBranch}'.`);
+            return true;
+        });
+    } catch (err: any) {
+        console.error(`Failed to check out PR #${prInfo.number}:`, err);
+        vscode.window.showErrorMessage(`Failed to check out PR #${prInfo.number}: ${err.stderr || err.message || 'Unknown error'}`);
+        return false;
+    }
+}
+
+// Number of the PR whose branch is currently checked out, if any
+export async function getCheckedOutPrNumber(): Promise<number | undefined> {
+    const api = await getGitApi();
+    const repository = api?.repositories[0];
+    const headBranch = repository?.state.HEAD?.name;
+    if (!repository || !headBranch) {
+        return undefined;
+    }
+    try {
+        const value = await repository.getConfig(`branch.${headBranch}.${PR_NUMBER_CONFIG_KEY}`);
+        return value ? Number(value) : undefined;
+    } catch {
+        return undefined; // Key not set for this branch
+    }
+}
@@ -0,0 +1,98 @@
+import { Octokit } from '@octokit/rest';
+import type { PullRequestInfo } from './prDataProvider';
+
+// A single CI entry, either a check run (Actions, apps) or a legacy commit status
+export interface PrCheckItem {
+    id: string;
+    kind: 'check_run' | 'status';
+    name: string;
+    status: 'queued' | 'in_progress' | 'completed';
+    conclusion: string | null; // success, failure, neutral, cancelled, skipped, timed_out, action_required, error, pending
+    startedAt: string | null;
+    completedAt: string | null;
+    detailsUrl: string | null;
+    checkSuiteId: number | null; // Only check runs belong to a suite that can be re-requested
+}
+
+export interface PrChecksData {
+    headSha: string;
+    state: 'success' | 'failure' | 'pending' | 'none';
+    checks: PrCheckItem[];
+}
+
+const FAILED_CONCLUSIONS = ['failure', 'timed_out', 'cancelled', 'action_required', 'error'];
+
+// Fetches check runs and combined commit statuses for the PR head commit
+export async function fetchPrChecks(octokit: Octokit, prInfo: PullRequestInfo, headSha?: string): Promise<PrChecksData> {
+    const owner = prInfo.repoOwner;
+    const repo = prInfo.repoName;
+
+    if (!headSha) {
+        const { data: pullData } = await octokit.pulls.get({ owner, repo, pull_number: prInfo.number });
+        headSha = pullData.head.sha;
+    }
+
+    const [checkRunsResponse, combinedStatusResponse] = await Promise.all([
+        octokit.checks.listForRef({ owner, repo, ref: headSha, per_page: 100 }),
+        octokit.repos.getCombinedStatusForRef({ owner, repo, ref: headSha, per_page: 100 })
+    ]);
+
+    const checks: PrCheckItem[] = [];
+
+    checkRunsResponse.data.check_runs.forEach(run => {
+        checks.push({
+            id: `check_run:${run.id}`,
+            kind: 'check_run',
+            name: run.name,
+            status: run.status,
+            conclusion: run.conclusion,
+            startedAt: run.started_at,
+            completedAt: run.completed_at,
+            detailsUrl: run.details_url || run.html_url,
+            checkSuiteId: run.check_suite?.id ?? null,
+        });
+    });
+
+    combinedStatusResponse.data.statuses.forEach(status => {
+        const isPending = status.state === 'pending';
+        checks.push({
+            id: `status:${status.id}`,
+            kind: 'status',
+            name: status.context,
+            status: isPending ? 'in_progress' : 'completed',
+            conclusion: isPending ? null : status.state,
+            startedAt: status.created_at,
+            completedAt: isPending ? null : status.updated_at,
+            detailsUrl: status.target_url,
+            checkSuiteId: null,
+        });
+    });
+
+    // Failures first, then pending, then the rest, alphabetically within each group
+    const rank = (check: PrCheckItem) => check.conclusion && FAILED_CONCLUSIONS.includes(check.conclusion) ? 0 : check.status !== 'completed' ? 1 : 2;
+    checks.sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name));
+
+    return { headSha, state: summarizeChecks(checks), checks };
+}
+
+export function summarizeChecks(checks: PrCheckItem[]): PrChecksData['state'] {
+    if (checks.length === 0) {
+        return 'none';
+    }
+    if (checks.some(check => check.conclusion && FAILED_CONCLUSIONS.includes(check.conclusion))) {
+        return 'failure';
+    }
+    if (checks.some(check => check.status !== 'completed')) {
+        return 'pending';
+    }
+    return 'success';
+}
+
+// Re-requests the given check suites so their failed runs start again
+export async function rerequestCheckSuites(octokit: Octokit, prInfo: PullRequestInfo, checkSuiteIds: number[]) {
+    const uniqueIds = [...new Set(checkSuiteIds)];
+    await Promise.all(uniqueIds.map(check_suite_id =>
+        octokit.checks.rerequestSuite({ owner: prInfo.repoOwner, repo: prInfo.repoName, check_suite_id })
+    ));
+    return uniqueIds.length;
+}
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { getOctokit } from './auth';
+
+export const PR_CONTENT_SCHEME = 'pr';
+
+// Carried in the URI query so the path stays the plain file path (used for language detection)
+interface PrContentQuery {
+    owner: string;
+    repo: string;
+    ref: string | null; // null for the missing side of an added/removed file
+}
+
+const MAX_CACHE_ENTRIES = 200;
+
+// Branch names move, so only content fetched by commit SHA is cached
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}$/i;
+
+// URI of a file at a given ref, fetched lazily when VS Code opens it
+export function toPrContentUri(owner: string, repo: string, ref: string | null, path: string): vscode.Uri {
+    const query: PrContentQuery = { owner, repo, ref };
+    return vscode.Uri.from({ scheme: PR_CONTENT_SCHEME, path: `/${path}`, query: JSON.stringify(query) });
+}
+
+class PrContentProvider implements vscode.TextDocumentContentProvider {
+    private contentCache = new Map<string, string>();
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+
+    // Open documents at a branch ref may be stale, ask VS Code to load them again
+    refreshBranchContent() {
+        vscode.workspace.textDocuments.forEach(document => {
+            if (document.uri.scheme !== PR_CONTENT_SCHEME) { return; }
+            const { ref }: PrContentQuery = JSON.parse(document.uri.query);
+            if (ref && !COMMIT_SHA_PATTERN.test(ref)) {
+                this._onDidChange.fire(document.uri);
+            }
+        });
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const { owner, repo, ref }: PrContentQuery = JSON.parse(uri.query);
+        if (!ref) {
+            return '';
+        }
+
+        const cacheKey = uri.toString();
+        const cached = this.contentCache.get(cacheKey);
+        if (cached !== undefined) {
+            this.contentCache.delete(cacheKey); // Re-insert so the entry becomes the most recent
+            this.contentCache.set(cacheKey, cached);
+            return cached;
+        }
+
+        const octokit = await getOctokit();
+        if (!octokit) {
+            throw new Error("GitHub authentication required to load file content.");
+        }
+
+        const path = uri.path.substring(1);
+        let content: string;
+        try {
+            const { data } = await octokit.repos.getContent({ owner, repo, path, ref });
+            if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+                throw new Error(`${path} is not a file at ${ref}`);
+            }
+            // Files over 1 MB come without content, the blob API serves them up to 100 MB
+            const base64Content = data.encoding === 'none'
+                ? (await octokit.git.getBlob({ owner, repo, file_sha: data.sha })).data.content
+                : data.content;
+            content = Buffer.from(base64Content, 'base64').toString('utf8');
+        } catch (err: any) {
+            if (err.status !== 404) {
+                console.error(`Failed to fetch ${path} at ${ref}:`, err);
+                throw err;
+            }
+            content = ''; // File does not exist at this ref, show it as empty
+        }
+
+        if (COMMIT_SHA_PATTERN.test(ref)) {
+            this.contentCache.set(cacheKey, content);
+            if (this.contentCache.size > MAX_CACHE_ENTRIES) {
+                this.contentCache.delete(this.contentCache.keys().next().value as string);
+            }
+        }
+        return content;
+    }
+}
+
+let prContentProvider: PrContentProvider | undefined;
+
+export function registerPrContentProvider(context: vscode.ExtensionContext) {
+    prContentProvider = new PrContentProvider();
+    context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(PR_CONTENT_SCHEME, prContentProvider));
+}
+
+export function refreshPrContent() {
+    prContentProvider?.refreshBranchContent();
+}
@@ -3,10 +3,23 @@ import { getOctokit } from './auth';
 import { Octokit } from '@octokit/rest';
 import type { Endpoints } from "@octokit/types";
 import { isGitRepositoryAvailable } from './gitUtils';
+import { getCheckedOutPrNumber } from './prCheckout';
+import { fetchPrDecorations, formatAge, PrDecoration } from './prDecorations';
+import { buildFileTree, compareTreeOrder, formatFileStats, FileTreeFolder } from './fileTree';
+import { fetchViewedFiles, setFileViewed, findNextUnviewedFile, FileViewedState, PrViewedFiles } from './prViewedFiles';
 
 // Type for file objects from listFiles endpoint
 type ChangedFileFromApi = Endpoints["GET /repos/{owner}/{repo}/pulls/{pull_number}/files"]["response"]["data"][0];
 
+const CATEGORY_PAGE_SIZE = 20;
+const MAX_SEARCH_RESULTS = 1000;
+
+// A tree category from the yourExtension.queries setting
+interface PrQueryConfig {
+    label: string;
+    query: string; // GitHub search qualifiers, may contain ${user}
+}
+
 // Interface for basic PR info (expand as needed)
 export interface PullRequestInfo {
     id: number;
@@ -25,6 +38,12 @@ export class PrDataProvider implements vscode.TreeDataProvider<vscode.TreeItem>
 
     private octokit: Octokit | undefined;
     private currentUser: string | undefined;
+    // Latest tree item for each PR number, used to find the checked-out PR's files
+    private pullRequestItems = new Map<number, PullRequestItem>();
+    // File whose diff was opened last in each PR, "Next unviewed file" continues after it
+    private lastOpenedFiles = new Map<number, string>();
+    // Changed files are grouped by folder unless switched to a flat list
+    private fileLayout: 'tree' | 'flat' = 'tree';
 
     constructor() {
        this.initialize();
@@ -45,6 +64,20 @@ export class PrDataProvider implements vscode.TreeDataProvider<vscode.TreeItem>
         }
     }
 
+    // Login of the signed-in GitHub user, once initialize() has completed
+    getCurrentUser(): string | undefined {
+        return this.currentUser;
+    }
+
+    getFileLayout(): 'tree' | 'flat' {
+        return this.fileLayout;
+    }
+
+    setFileLayout(layout: 'tree' | 'flat'): void {
+        this.fileLayout = layout;
+        this.refresh();
+    }
+
     refresh(): void {
         // Trigger a refresh of the tree view
         this._onDidChangeTreeData.fire();
@@ -74,44 +107,31 @@ export class PrDataProvider implements vscode.TreeDataProvider<vscode.TreeItem>
             // Create the "Analyze Git Repository" 
             const analyzeItem = await this.createAnalyzeRepoTreeItem(gitAvailable);
 
-            // Original category items
-            const categories: vscode.TreeItem[] = [
-                new CategoryItem("Waiting For My Review", vscode.TreeItemCollapsibleState.Collapsed),
-                new CategoryItem("Assigned To Me", vscode.TreeItemCollapsibleState.Collapsed),
-                new CategoryItem("Created By Me", vscode.TreeItemCollapsibleState.Collapsed),
-                new CategoryItem("All Open", vscode.TreeItemCollapsibleState.Collapsed)
-            ];
+            // Category items defined by the user's queries
+            const categories: vscode.TreeItem[] = this.getQueryConfigs().map(config =>
+                new CategoryItem(config.label, config.query, vscode.TreeItemCollapsibleState.Collapsed)
+            );
 
             // Return the analyze item first, then the categories
             return Promise.resolve([analyzeItem, ...categories]);
 
         } else if (element instanceof PullRequestItem) {
             // Return children for an expanded PullRequestItem
-            if (!element.filesFetched) {
-                // Fetch files if not already fetched
-                try {
-                    const response = await this.octokit.pulls.listFiles({
-                        owner: element.prInfo.repoOwner,
-                        repo: element.prInfo.repoName,
-                        pull_number: element.prInfo.number,
-                        per_page: 300
-                    });
-                    element.changedFiles = response.data;
-                    element.filesFetched = true;
-                } catch (error) {
-                     console.error(`Failed to fetch files for PR #${element.prInfo.number}:`, error);
-                     element.filesFetched = true; // Mark as fetched to avoid retrying immediately
-                     element.changedFiles = undefined; // Ensure no files are shown
-                     return [new vscode.TreeItem("Error fetching changed files")];
-                }
+            if (!element.filesFetched && !(await this.loadChangedFiles(element))) {
+                return [new vscode.TreeItem("Error fetching changed files")];
             }
 
             // Create child items if files were fetched successfully
             const children: vscode.TreeItem[] = [new DescriptionItem(element.prInfo)];
             if (element.changedFiles && element.changedFiles.length > 0) {
-                element.changedFiles.forEach(file => {
-                    children.push(new ChangedFileItem(element.prInfo, file));
-                });
+                if (this.fileLayout === 'tree') {
+                    const root = buildFileTree(element.changedFiles, file => file.filename);
+                    children.push(...this.getFolderChildren(element, root));
+                } else {
+                    element.changedFiles.forEach(file => {
+                        children.push(new ChangedFileItem(element.prInfo, file, element.viewedFiles));
+                    });
+                }
             } else if (element.filesFetched) {
                  // If fetched but no files found
                  children.push(new vscode.TreeItem("No changed files found", vscode.TreeItemCollapsibleState.None));
@@ -119,17 +139,105 @@ export class PrDataProvider implements vscode.TreeDataProvider<vscode.TreeItem>
 
             return children;
 
+        } else if (element instanceof FolderItem) {
+            return this.getFolderChildren(element.pullRequestItem, element.folder);
+
         } else if (element instanceof CategoryItem) {
-            // Existing logic for categories
-            if (element.label) {
-                 return this.getPullRequestsForCategory(element.label as string);
-            }
-            return [];
+            return this.getPullRequestsForCategory(element);
         } else {
              return [];
         }
     }
 
+    // Sub-folders first, then the files directly inside the folder
+    private getFolderChildren(pullRequestItem: PullRequestItem, folder: FileTreeFolder<ChangedFileFromApi>): vscode.TreeItem[] {
+        return [
+            ...folder.folders.map(subFolder => new FolderItem(pullRequestItem, subFolder)),
+            ...folder.files.map(file => new ChangedFileItem(pullRequestItem.prInfo, file, pullRequestItem.viewedFiles, true)),
+        ];
+    }
+
+    // Fetches the changed files of a PR and the viewer's viewed state for each of them
+    private async loadChangedFiles(element: PullRequestItem): Promise<boolean> {
+        if (!this.octokit) {
+            return false;
+        }
+        try {
+            const files = await this.octokit.paginate(this.octokit.pulls.listFiles, {
+                owner: element.prInfo.repoOwner,
+                repo: element.prInfo.repoName,
+                pull_number: element.prInfo.number,
+                per_page: 100
+            });
+            // Stored in tree order, so the flat list and "Next unviewed" follow the tree
+            element.changedFiles = files.sort((a, b) => compareTreeOrder(a.filename, b.filename));
+            element.filesFetched = true;
+        } catch (error) {
+             console.error(`Failed to fetch files for PR #${element.prInfo.number}:`, error);
+             element.filesFetched = true; // Mark as fetched to avoid retrying immediately
+             element.changedFiles = undefined; // Ensure no files are shown
+             return false;
+        }
+
+        try {
+            element.viewedFiles = await fetchViewedFiles(this.octokit, element.prInfo);
+        } catch (error) {
+            // Files still show without checkboxes if this fails
+            console.error(`Failed to fetch viewed files for PR #${element.prInfo.number}:`, error);
+            element.viewedFiles = undefined;
+        }
+        return true;
+    }
+
+    // Marks a file viewed/unviewed on GitHub and updates its checkbox
+    async setFileViewed(item: ChangedFileItem, viewed: boolean): Promise<void> {
+        if (!this.octokit || !item.viewedFiles) {
+            return;
+        }
+        try {
+            await setFileViewed(this.octokit, item.viewedFiles, item.fileData.filename, viewed);
+        } catch (error: any) {
+            console.error(`Failed to mark ${item.fileData.filename} as ${viewed ? 'viewed' : 'unviewed'}:`, error);
+            vscode.window.showErrorMessage(`Failed to update viewed state of ${item.fileData.filename}: ${error.message || 'Unknown error'}`);
+        }
+        item.applyViewedState(item.viewedFiles.states.get(item.fileData.filename));
+        this._onDidChangeTreeData.fire(item);
+    }
+
+    recordOpenedFile(prInfo: PullRequestInfo, filename: string): void {
+        this.lastOpenedFiles.set(prInfo.number, filename);
+    }
+
+    // Opens the diff of the next file not yet marked viewed, in the given PR or the checked-out one
+    async openNextUnviewedFile(prInfo?: PullRequestInfo): Promise<void> {
+        const prNumber = prInfo?.number ?? await getCheckedOutPrNumber();
+        const element = prNumber !== undefined ? this.pullRequestItems.get(prNumber) : undefined;
+        if (!element) {
+            vscode.window.showInformationMessage("Check out a pull request or select one in the tree to review its files.");
+            return;
+        }
+        if (!element.filesFetched && !(await this.loadChangedFiles(element))) {
+            vscode.window.showErrorMessage(`Failed to fetch changed files for PR #${element.prInfo.number}.`);
+            return;
+        }
+        if (!element.changedFiles || !element.viewedFiles) {
+            vscode.window.showErrorMessage(`Viewed state of PR #${element.prInfo.number} is not available.`);
+            return;
+        }
+
+        const nextPath = findNextUnviewedFile(
+            element.changedFiles.map(file => file.filename),
+            element.viewedFiles,
+            this.lastOpenedFiles.get(element.prInfo.number)
+        );
+        const nextFile = element.changedFiles.find(file => file.filename === nextPath);
+        if (!nextFile) {
+            vscode.window.showInformationMessage(`All files in PR #${element.prInfo.number} are marked as viewed.`);
+            return;
+        }
+        await vscode.commands.executeCommand('yourExtension.viewSpecificFileDiff', element.prInfo, nextFile);
+    }
+
     // Function to create the Analyze Repo Tree Item
     private async createAnalyzeRepoTreeItem(gitAvailable: boolean): Promise<vscode.TreeItem> {
         const analyzeItem = new vscode.TreeItem("Analyze Git Repository", vscode.TreeItemCollapsibleState.None);
@@ -150,53 +258,89 @@ export class PrDataProvider implements vscode.TreeDataProvider<vscode.TreeItem>
         return analyzeItem;
     }
 
-    private async getPullRequestsForCategory(categoryLabel: string): Promise<vscode.TreeItem[]> {
+    // Skips malformed entries so one typo in settings does not empty the whole tree
+    private getQueryConfigs(): PrQueryConfig[] {
+        const configs = vscode.workspace.getConfiguration('yourExtension').get<PrQueryConfig[]>('queries') || [];
+        return configs.filter(config => typeof config?.label === 'string' && config.label.trim() && typeof config.query === 'string');
+    }
+
+    private async getPullRequestsForCategory(category: CategoryItem): Promise<vscode.TreeItem[]> {
         const gitAvailable = await isGitRepositoryAvailable(); 
         if (!gitAvailable) {
              return [new vscode.TreeItem("Requires an initialized Git repository.")];
         }
 
-        if (!this.octokit || !this.currentUser) return [];
+        if (!this.octokit || !this.currentUser) {
+            return [];
+        }
 
-        let searchQuery = '';
-        const repoContext = await this.getCurrentRepoContext(); // Helper needed to get current repo
+        // Pages fetched so far (including "Load more…") are kept until the tree is refreshed
+        if (!category.pullRequests) {
+            const repoContext = await this.getCurrentRepoContext(); // Helper needed to get current repo
 
-        if (!repoContext) {
-            // Handle case where not in a repo or can't determine it
-            return [new vscode.TreeItem("Open a GitHub repository to see PRs")];
+            if (!repoContext) {
+                // Handle case where not in a repo or can't determine it
+                return [new vscode.TreeItem("Open a GitHub repository to see PRs")];
+            }
+
+            try {
+                await this.fetchCategoryPage(category, repoContext);
+            } catch (error) {
+                console.error(`Error fetching PRs for category "${category.label}":`, error);
+                if(error instanceof Error) {
+                vscode.window.showErrorMessage(`Failed to fetch PRs: ${error.message}`);
+                }
+                return [new vscode.TreeItem("Error fetching pull requests")];
+            }
+            // addPage has set the count as the category description. Not firing a change here,
+            // that would make VS Code request this category's children again.
         }
 
-        // Construct GitHub search query based on category
-        // Example queries (adjust based on your exact needs and GitHub search syntax)
-        const repoFilter = `repo:${repoContext.owner}/${repoContext.repo}`;
-        switch (categoryLabel) {
-            case "Waiting For My Review":
-                searchQuery = `is:open is:pr ${repoFilter} review-requested:${this.currentUser}`;
-                break;
-            case "Assigned To Me":
-                searchQuery = `is:open is:pr ${repoFilter} assignee:${this.currentUser}`;
-                break;
-            case "Created By Me":
-                searchQuery = `is:open is:pr ${repoFilter} author:${this.currentUser}`;
-                break;
-            case "All Open":
-                searchQuery = `is:open is:pr ${repoFilter}`;
-                break;
-            default:
-                return []; // Unknown category
+        const pullRequests = category.pullRequests || [];
+        if (pullRequests.length === 0) {
+             return [new vscode.TreeItem(`0 pull requests in this category`, vscode.TreeItemCollapsibleState.None)];
         }
+        return category.hasMore() ? [...pullRequests, new LoadMoreItem(category)] : pullRequests;
+    }
 
+    // Appends the next page of search results to a category
+    async loadMorePullRequests(category: CategoryItem): Promise<void> {
+        const repoContext = await this.getCurrentRepoContext();
+        if (!repoContext) {
+            return;
+        }
         try {
-            const result = await this.octokit.search.issuesAndPullRequests({
-                q: searchQuery,
-                per_page: 20 // Limit results for performance
-            });
+            await this.fetchCategoryPage(category, repoContext);
+        } catch (error: any) {
+            console.error(`Error loading more PRs for category "${category.label}":`, error);
+            vscode.window.showErrorMessage(`Failed to load more pull requests: ${error.message || 'Unknown error'}`);
+        }
+        this._onDidChangeTreeData.fire(category);
+    }
 
-            if (result.data.items.length === 0) {
-                 return [new vscode.TreeItem(`0 pull requests in this category`, vscode.TreeItemCollapsibleState.None)];
-            }
+    private async fetchCategoryPage(category: CategoryItem, repoContext: { owner: string; repo: string }): Promise<void> {
+        if (!this.octokit || !this.currentUser) {
+            return;
+        }
 
-            return result.data.items.map(pr => {
+        // Scope the category's qualifiers to PRs in the current repository
+        const repoFilter = `repo:${repoContext.owner}/${repoContext.repo}`;
+        const searchQuery = `is:pr ${repoFilter} ${category.query.replace(/\$\{user\}/g, this.currentUser)}`.trim();
+
+        const loaded = category.pullRequests || [];
+        const result = await this.octokit.search.issuesAndPullRequests({
+            q: searchQuery,
+            per_page: CATEGORY_PAGE_SIZE,
+            page: category.nextPage
+        });
+
+        const checkedOutPrNumber = await getCheckedOutPrNumber();
+        const loadedNumbers = new Set(loaded.map(item => item.prInfo.number));
+
+        const itemsByNodeId = new Map<string, PullRequestItem>();
+        const newItems = result.data.items
+            .filter(pr => !loadedNumbers.has(pr.number)) // PRs opened between pages shift results along
+            .map(pr => {
                  // Adapt this based on the structure returned by the search API
                  const prInfo: PullRequestInfo = {
                      id: pr.id,
@@ -207,16 +351,22 @@ export class PrDataProvider implements vscode.TreeDataProvider<vscode.TreeItem>
                      repoOwner: repoContext.owner, // Assuming search context is reliable
                      repoName: repoContext.repo,
                  };
-                 return new PullRequestItem(prInfo);
+                 const item = new PullRequestItem(prInfo, undefined, pr.number === checkedOutPrNumber);
+                 this.pullRequestItems.set(pr.number, item);
+                 itemsByNodeId.set(pr.node_id, item);
+                 return item;
             });
 
+        // One GraphQL request for the whole page instead of several REST calls per PR
+        try {
+            const decorations = await fetchPrDecorations(this.octokit, [...itemsByNodeId.keys()], this.currentUser);
+            decorations.forEach((decoration, nodeId) => itemsByNodeId.get(nodeId)?.applyDecoration(decoration));
         } catch (error) {
-            console.error(`Error fetching PRs for category "${categoryLabel}":`, error);
-            if(error instanceof Error) {
-            vscode.window.showErrorMessage(`Failed to fetch PRs: ${error.message}`);
-            }
-            return [new vscode.TreeItem("Error fetching pull requests")];
+            // Items still show title and author without decorations
+            console.error(`Failed to fetch PR decorations for category "${category.label}":`, error);
         }
+
+        category.addPage(newItems, result.data.total_count, result.data.items.length);
     }
 
      private async getCurrentRepoContext(): Promise<{ owner: string; repo: string } | undefined> {
@@ -249,38 +399,171 @@ export class PrDataProvider implements vscode.TreeDataProvider<vscode.TreeItem>
 
 // Tree Item Classes
 
-class CategoryItem extends vscode.TreeItem {
+export class CategoryItem extends vscode.TreeItem {
+    public pullRequests?: PullRequestItem[]; // Undefined until the first page is fetched
+    public nextPage = 1; // Search page requested by the next fetch
+    private totalCount = 0;
+    private lastPageFull = false;
+
     constructor(
         public readonly label: string,
+        public readonly query: string, // Search qualifiers from the yourExtension.queries setting
         public readonly collapsibleState: vscode.TreeItemCollapsibleState
     ) {
         super(label, collapsibleState);
         this.contextValue = 'prCategory'; // Used to identify this item type in getChildren
-        this.tooltip = `Pull requests: ${label}`;
+        this.tooltip = `Pull requests: ${label}\n${query}`;
+    }
+
+    // Counts pages rather than items, since duplicates dropped between pages would
+    // otherwise make the same page be requested again
+    addPage(newPullRequests: PullRequestItem[], totalCount: number, pageItemCount: number) {
+        this.pullRequests = [...(this.pullRequests || []), ...newPullRequests];
+        this.nextPage++;
+        this.totalCount = totalCount;
+        this.lastPageFull = pageItemCount >= CATEGORY_PAGE_SIZE;
+        this.description = this.hasMore() ? `${this.pullRequests.length} of ${totalCount}` : `${totalCount}`;
+    }
+
+    // Search only serves the first 1000 results
+    hasMore(): boolean {
+        const reachable = Math.min(this.totalCount, MAX_SEARCH_RESULTS);
+        return this.lastPageFull && (this.nextPage - 1) * CATEGORY_PAGE_SIZE < reachable;
     }
 }
 
+// Fetches the next page of a category when clicked
+class LoadMoreItem extends vscode.TreeItem {
+    constructor(category: CategoryItem) {
+        super("Load more…", vscode.TreeItemCollapsibleState.None);
+        this.iconPath = new vscode.ThemeIcon('ellipsis');
+        this.command = {
+            command: 'yourExtension.loadMorePullRequests',
+            title: 'Load More Pull Requests',
+            arguments: [category]
+        };
+        this.contextValue = 'loadMoreItem';
+    }
+}
+
+const VIEWER_REVIEW_TEXT: Record<PrDecoration['viewerReviewState'], string> = {
+    approved: 'you approved',
+    changes_requested: 'you requested changes',
+    commented: 'you commented',
+    requested: 'review requested',
+    none: '',
+};
+
+const CI_TOOLTIP_TEXT: Record<PrDecoration['ciState'], string> = {
+    success: '$(pass) Checks passed',
+    failure: '$(error) Checks failed',
+    pending: '$(clock) Checks pending',
+    none: 'No checks',
+};
+
+const CI_ICONS: Record<Exclude<PrDecoration['ciState'], 'none'>, vscode.ThemeIcon> = {
+    success: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+    failure: new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed')),
+    pending: new vscode.ThemeIcon('clock', new vscode.ThemeColor('testing.iconQueued')),
+};
+
 export class PullRequestItem extends vscode.TreeItem {
     public changedFiles?: ChangedFileFromApi[]; // To store fetched files
     public filesFetched: boolean = false; // Flag to check if fetched
+    public viewedFiles?: PrViewedFiles; // Viewed state of the fetched files
+    public decoration?: PrDecoration; // Draft, CI and review status, once fetched
 
     constructor(
         public readonly prInfo: PullRequestInfo,
 
         // Collapsible state can be passed in, default to collapsed
         // This allows for nested PRs or categories if needed
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.Collapsed
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.Collapsed,
+        public readonly isCheckedOut: boolean = false // Branch of this PR is checked out locally
     ) {
         super(`#${prInfo.number}: ${prInfo.title}`, collapsibleState);
 
-        this.description = `by ${prInfo.author}`;
-        this.tooltip = `${prInfo.title}\nAuthor: ${prInfo.author}\nClick to expand`;
         this.contextValue = 'pullRequestItem'; // Used for context menu contributions
-        this.iconPath = new vscode.ThemeIcon('git-pull-request');
+        this.updateDisplay();
+    }
+
+    applyDecoration(decoration: PrDecoration): void {
+        this.decoration = decoration;
+        this.updateDisplay();
+    }
+
+    private updateDisplay(): void {
+        const { prInfo, isCheckedOut, decoration } = this;
+
+        const descriptionParts = [`by ${prInfo.author}`];
+        if (decoration) {
+            if (decoration.isDraft) {
+                descriptionParts.unshift('Draft');
+            }
+            descriptionParts.push(formatAge(decoration.createdAt));
+            const reviewText = VIEWER_REVIEW_TEXT[decoration.viewerReviewState];
+            if (reviewText) {
+                descriptionParts.push(reviewText);
+            }
+            if (decoration.approvalCount > 0) {
+                descriptionParts.push(`${decoration.approvalCount} approved`);
+            }
+            if (decoration.commentCount > 0) {
+                descriptionParts.push(`${decoration.commentCount} comments`);
+            }
+        }
+        if (isCheckedOut) {
+            descriptionParts.push('checked out');
+        }
+        this.description = descriptionParts.join(' • ');
+
+        const tooltip = new vscode.MarkdownString('', true);
+        tooltip.appendMarkdown(`**#${prInfo.number}:** `);
+        tooltip.appendText(prInfo.title);
+        tooltip.appendMarkdown(`\n\n$(person) ${prInfo.author}`);
+        if (decoration) {
+            tooltip.appendMarkdown(` • opened ${formatAge(decoration.createdAt)} ago`);
+            if (decoration.isDraft) {
+                tooltip.appendMarkdown(`\n\n$(git-pull-request-draft) Draft`);
+            }
+            tooltip.appendMarkdown(`\n\n${CI_TOOLTIP_TEXT[decoration.ciState]}`);
+            tooltip.appendMarkdown(`\n\n$(eye) Your review: ${VIEWER_REVIEW_TEXT[decoration.viewerReviewState] || 'none'}`);
+            tooltip.appendMarkdown(`\n\n$(check-all) ${decoration.approvalCount} approvals • $(comment) ${decoration.commentCount} comments`);
+            if (decoration.labels.length > 0) {
+                tooltip.appendMarkdown(`\n\n$(tag) ${decoration.labels.map(label => `\`${label.replace(/`/g, "'")}\``).join(' ')}`);
+            }
+        }
+        if (isCheckedOut) {
+            tooltip.appendMarkdown(`\n\n$(check) Checked out locally`);
+        }
+        this.tooltip = tooltip;
+
+        // Checked-out marker first, then CI status, then plain PR/draft icon
+        if (isCheckedOut) {
+            this.iconPath = new vscode.ThemeIcon('check', new vscode.ThemeColor('gitDecoration.addedResourceForeground'));
+        } else if (decoration && decoration.ciState !== 'none') {
+            this.iconPath = CI_ICONS[decoration.ciState];
+        } else {
+            this.iconPath = new vscode.ThemeIcon(decoration?.isDraft ? 'git-pull-request-draft' : 'git-pull-request');
+        }
     }
 }
 
 
+// A directory of changed files when files are shown as a tree
+class FolderItem extends vscode.TreeItem {
+    constructor(
+        public readonly pullRequestItem: PullRequestItem,
+        public readonly folder: FileTreeFolder<ChangedFileFromApi>
+    ) {
+        super(folder.name, vscode.TreeItemCollapsibleState.Expanded);
+        this.description = formatFileStats(folder);
+        this.tooltip = `${folder.path}\n${folder.additions} additions, ${folder.deletions} deletions`;
+        this.iconPath = vscode.ThemeIcon.Folder;
+        this.contextValue = 'changedFolderItem';
+    }
+}
+
 class DescriptionItem extends vscode.TreeItem {
     constructor(prInfo: PullRequestInfo) {
         super("Description", vscode.TreeItemCollapsibleState.None);
@@ -294,19 +577,22 @@ class DescriptionItem extends vscode.TreeItem {
     }
 }
 
-class ChangedFileItem extends vscode.TreeItem {
+export class ChangedFileItem extends vscode.TreeItem {
     constructor(
         public readonly prInfo: PullRequestInfo,
-        public readonly fileData: ChangedFileFromApi // Store the specific file data
+        public readonly fileData: ChangedFileFromApi, // Store the specific file data
+        public readonly viewedFiles?: PrViewedFiles, // Undefined when viewed state could not be fetched
+        inFolder: boolean = false // Folder rows already show the directory
     ) {
         // Use filename for the label
-        super(fileData.filename, vscode.TreeItemCollapsibleState.None);
-
-        // Use status for description
-        this.description = this.mapStatus(fileData.status);
+        super(inFolder ? fileData.filename.split('/').pop()! : fileData.filename, vscode.TreeItemCollapsibleState.None);
 
-        // Add tooltip showing full path and status
-        this.tooltip = `${fileData.filename}\nStatus: ${fileData.status}`;
+        if (viewedFiles) {
+            this.applyViewedState(viewedFiles.states.get(fileData.filename));
+        } else {
+            this.description = this.getStatusDescription();
+            this.tooltip = this.getStatusTooltip();
+        }
 
         // ICON COLOR LOGIC
         const status = fileData.status;
@@ -351,6 +637,23 @@ class ChangedFileItem extends vscode.TreeItem {
         this.contextValue = 'changedFileItem';
     }
 
+    // Checkbox, description and tooltip for the file's viewed state
+    applyViewedState(state: FileViewedState | undefined): void {
+        const status = this.getStatusDescription();
+        this.checkboxState = state === 'VIEWED' ? vscode.TreeItemCheckboxState.Checked : vscode.TreeItemCheckboxState.Unchecked;
+        this.description = state === 'DISMISSED' ? `${status} • changed since viewed` : status;
+        this.tooltip = `${this.getStatusTooltip()}\n${state === 'VIEWED' ? 'Viewed' : state === 'DISMISSED' ? 'Changed since you viewed it' : 'Not viewed'}`;
+    }
+
+    // Status letter followed by the line stats, e.g. "M +12 -3"
+    private getStatusDescription(): string {
+        return `${this.mapStatus(this.fileData.status)} ${formatFileStats(this.fileData)}`.trim();
+    }
+
+    private getStatusTooltip(): string {
+        return `${this.fileData.filename}\nStatus: ${this.fileData.status}\n${this.fileData.additions} additions, ${this.fileData.deletions} deletions`;
+    }
+
     // Helper to map API status to single characters
     private mapStatus(status: string): string {
          switch (status) {
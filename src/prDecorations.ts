@@ -0,0 +1,108 @@
+import { Octokit } from '@octokit/rest';
+
+export type PrCiState = 'success' | 'failure' | 'pending' | 'none';
+export type PrViewerReviewState = 'approved' | 'changes_requested' | 'commented' | 'requested' | 'none';
+
+// Status shown on a PR in the tree, beyond its title and author
+export interface PrDecoration {
+    isDraft: boolean;
+    createdAt: string;
+    ciState: PrCiState;
+    viewerReviewState: PrViewerReviewState;
+    approvalCount: number;
+    commentCount: number;
+    labels: string[];
+}
+
+// One entry per requested id; null for deleted or inaccessible PRs
+interface PrDecorationsResponse {
+    nodes: (PrDecorationNode | null)[];
+}
+
+interface PrDecorationNode {
+    id?: string; // Missing when the node is not a PullRequest
+    isDraft: boolean;
+    createdAt: string;
+    totalCommentsCount: number | null;
+    labels: { nodes: { name: string }[] } | null;
+    latestReviews: { nodes: { state: string; author: { login: string } | null }[] } | null;
+    reviewRequests: { nodes: { requestedReviewer: { login?: string } | null }[] } | null;
+    commits: { nodes: { commit: { statusCheckRollup: { state: string } | null } }[] };
+}
+
+// Fetches decorations for a page of PRs in one request, keyed by PR node id
+export async function fetchPrDecorations(octokit: Octokit, nodeIds: string[], viewerLogin: string): Promise<Map<string, PrDecoration>> {
+    const decorations = new Map<string, PrDecoration>();
+    if (nodeIds.length === 0) {
+        return decorations;
+    }
+
+    const result = await octokit.graphql<PrDecorationsResponse>(`
+        query($ids: [ID!]!) {
+            nodes(ids: $ids) {
+                ... on PullRequest {
+                    id
+                    isDraft
+                    createdAt
+                    totalCommentsCount
+                    labels(first: 20) { nodes { name } }
+                    latestReviews(first: 100) { nodes { state author { login } } }
+                    reviewRequests(first: 50) { nodes { requestedReviewer { ... on User { login } } } }
+                    commits(last: 1) { nodes { commit { statusCheckRollup { state } } } }
+                }
+            }
+        }`, { ids: nodeIds });
+
+    (result?.nodes || []).forEach(pr => {
+        if (!pr?.id) {
+            return; // Deleted or inaccessible PR
+        }
+        const reviews = pr.latestReviews?.nodes || [];
+        const viewerReview = reviews.find(review => review.author?.login === viewerLogin);
+        const isRequested = (pr.reviewRequests?.nodes || []).some(request => request.requestedReviewer?.login === viewerLogin);
+
+        decorations.set(pr.id, {
+            isDraft: !!pr.isDraft,
+            createdAt: pr.createdAt,
+            ciState: mapCiState(pr.commits?.nodes?.[0]?.commit?.statusCheckRollup?.state),
+            // A pending re-request matters more than an older review
+            viewerReviewState: isRequested ? 'requested' : mapViewerReviewState(viewerReview?.state),
+            approvalCount: reviews.filter(review => review.state === 'APPROVED').length,
+            commentCount: pr.totalCommentsCount || 0,
+            labels: (pr.labels?.nodes || []).map(label => label.name),
+        });
+    });
+    return decorations;
+}
+
+function mapCiState(state: string | undefined): PrCiState {
+    switch (state) {
+        case 'SUCCESS': return 'success';
+        case 'FAILURE':
+        case 'ERROR': return 'failure';
+        case 'PENDING':
+        case 'EXPECTED': return 'pending';
+        default: return 'none';
+    }
+}
+
+function mapViewerReviewState(state: string | undefined): PrViewerReviewState {
+    switch (state) {
+        case 'APPROVED': return 'approved';
+        case 'CHANGES_REQUESTED': return 'changes_requested';
+        case 'COMMENTED': return 'commented';
+        default: return 'none';
+    }
+}
+
+// Compact age like "5m", "3h", "2d", "4mo"
+export function formatAge(isoDate: string): string {
+    const minutes = Math.max(0, Math.floor((Date.now() - new Date(isoDate).getTime()) / 60000));
+    if (minutes < 60) { return `${minutes}m`; }
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) { return `${hours}h`; }
+    const days = Math.floor(hours / 24);
+    if (days < 30) { return `${days}d`; }
+    const months = Math.floor(days / 30);
+    return months < 12 ? `${months}mo` : `${Math.floor(months / 12)}y`;
+}
@@ -1,11 +1,18 @@
 import * as vscode from 'vscode';
 import { getOctokit } from './auth';
+import { isReplayedResponse } from './requestCache';
 import { PrDataProvider } from './prDataProvider';
 import { Octokit } from '@octokit/rest'; 
 import type { Endpoints } from "@octokit/types"; 
 import type { PullRequestInfo } from './prDataProvider';; 
-import { getNonce, escapeHtml } from './utils'; 
-import { createTempFile } from './extension';
+import { getNonce, escapeHtml, normalizeLineEndings } from './utils'; 
+import { toPrContentUri } from './prContentProvider';
+import { deleteLocalPrBranches } from './gitUtils';
+import { showReviewThreadsForDiff } from './reviewCommentController';
+import { fetchPrChecks, rerequestCheckSuites, PrChecksData } from './prChecks';
+import { editPrMetadata, fetchPrSidebarData, PrMetadataField, PrSidebarData } from './prMetadataEditor';
+import { getPendingReview, startPendingReview, clearPendingReview, onDidChangePendingReview } from './pendingReviewStore';
+import { compareTreeOrder } from './fileTree';
 
 
 
@@ -15,15 +22,103 @@ type ReviewComment = Endpoints["GET /repos/{owner}/{repo}/pulls/{pull_number}/co
 type Review = Endpoints["GET /repos/{owner}/{repo}/pulls/{pull_number}/reviews"]["response"]["data"][0];
 type CommitListItem = Endpoints["GET /repos/{owner}/{repo}/pulls/{pull_number}/commits"]["response"]["data"][0];
 type ChangedFileFromApi = Endpoints["GET /repos/{owner}/{repo}/pulls/{pull_number}/files"]["response"]["data"][0];
+type TimelineEvent = Endpoints["GET /repos/{owner}/{repo}/issues/{issue_number}/timeline"]["response"]["data"][0];
+type CommitFileFromApi = NonNullable<Endpoints["GET /repos/{owner}/{repo}/commits/{ref}"]["response"]["data"]["files"]>[0];
 
 type FromWebviewMessage =
+    // Panel lifecycle
     | { command: 'webviewReady' }
+    | { command: 'refreshThisPr' }
     | { command: 'showError'; text: string }
     | { command: 'alert'; text: string }
-    | { command: 'mergePr'; data: { merge_method: 'merge' | 'squash' | 'rebase' } }
-    | { command: 'addComment'; text: string }
+    // PR state and merging
+    | { command: 'mergePr'; data: { merge_method: MergeMethod; commit_title?: string; commit_message?: string; delete_branch?: boolean } }
     | { command: 'closePr' }
-    | { command: 'refreshThisPr' };
+    | { command: 'reopenPr' }
+    | { command: 'markReadyForReview' }
+    | { command: 'convertToDraft' }
+    | { command: 'enableAutoMerge'; data: { merge_method: MergeMethod } }
+    | { command: 'disableAutoMerge' }
+    | { command: 'updateBranch'; data: { method: 'merge' | 'rebase' } }
+    // PR details and sidebar
+    | { command: 'editPrDetails'; data: { field: 'title' | 'body'; value: string; original: string | null } }
+    | { command: 'editMetadata'; data: { field: PrMetadataField } }
+    | { command: 'rerunFailedChecks'; data: { checkSuiteIds: number[] } }
+    // Comments and reactions
+    | { command: 'addComment'; text: string }
+    | { command: 'editComment'; data: { commentId: number; kind: CommentKind; body: string } }
+    | { command: 'deleteComment'; data: { commentId: number; kind: CommentKind } }
+    | { command: 'toggleReaction'; data: { target: ReactionTargetKind; id: number; content: ReactionContent; add: boolean } }
+    // Reviews and review threads
+    | { command: 'startReview' }
+    | { command: 'discardReview' }
+    | { command: 'submitReview'; data: { event: ReviewEvent; body: string } }
+    | { command: 'replyToReviewComment'; data: { commentId: number; text: string } }
+    | { command: 'resolveReviewThread'; data: { threadId: string } }
+    | { command: 'unresolveReviewThread'; data: { threadId: string } }
+    // Timeline, commits and diffs
+    | { command: 'loadOlderTimeline' }
+    | { command: 'loadCommitFiles'; data: { sha: string } }
+    | { command: 'showCommitFileDiff'; data: { sha: string; parentSha: string | null; file: CommitFileSummary } }
+    | { command: 'viewAllChanges' };
+
+type ReviewEvent = 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT';
+type MergeMethod = 'merge' | 'squash' | 'rebase';
+type CommentKind = 'issue' | 'review'; // Issue comments vs. review (diff) comments use different endpoints
+type ReactionContent = '+1' | '-1' | 'laugh' | 'confused' | 'heart' | 'hooray' | 'rocket' | 'eyes';
+type ReactionTargetKind = 'issue' | 'issue_comment' | 'review_comment'; // 'issue' is the PR description itself
+type ReactionRollup = Partial<Record<ReactionContent, number>> & { total_count?: number };
+
+type GraphQLPageInfo = { hasNextPage: boolean; endCursor: string | null };
+
+// GraphQL shape of the resolve state of every review thread
+type ReviewThreadsResponse = {
+    repository: {
+        pullRequest: {
+            reviewThreads: {
+                nodes: { id: string; isResolved: boolean; comments: { nodes: { databaseId: number | null }[] } }[];
+                pageInfo: GraphQLPageInfo;
+            };
+        } | null;
+    } | null;
+};
+
+// GraphQL shapes used to find the viewer's own reactions
+type ReactionGroupNode = { content: string; viewerHasReacted: boolean };
+type ReactableCommentNode = { databaseId: number; reactionGroups: ReactionGroupNode[] | null };
+type ViewerReactionsResponse = {
+    repository: {
+        pullRequest: {
+            reactionGroups: ReactionGroupNode[] | null;
+            comments?: { nodes: ReactableCommentNode[]; pageInfo: GraphQLPageInfo }; // Absent when skipped with @include
+            reviewThreads?: { nodes: { comments: { nodes: ReactableCommentNode[] } }[]; pageInfo: GraphQLPageInfo };
+        } | null;
+    } | null;
+};
+
+// Files changed by a single commit, shown when a commit is expanded in the timeline
+type CommitFileSummary = {
+    filename: string;
+    previousFilename?: string; // Set for renamed files
+    status: CommitFileFromApi['status'];
+    additions: number;
+    deletions: number;
+};
+
+type CommitFilesData = {
+    sha: string;
+    parentSha: string | null; // null for a root commit
+    files: CommitFileSummary[];
+};
+
+// Raw lists the timeline is built from
+type TimelineSources = {
+    reviews: Review[];
+    reviewComments: ReviewComment[];
+    issueComments: IssueComment[];
+    commits: CommitListItem[];
+    timelineEvents: TimelineEvent[];
+};
 
 type MergeStatusUpdateData = {
     mergeable: boolean | null;
@@ -31,32 +126,65 @@ type MergeStatusUpdateData = {
 };
 
 interface PrDetails {
+    number: number;
+    title: string;
     timeline: TimelineItem[];
+    olderTimelineCount: number; // Items older than `timeline` that the webview can load on demand
+    olderTimelineLoading: boolean; // Older activity is still being fetched and follows in an updateTimeline message
     mergeable_state: string; 
     mergeable: boolean | null;
     // Fields for the header display
     state: 'open' | 'closed';
     merged: boolean;
+    draft: boolean;
+    autoMerge: AutoMergeState | null; // Set while the PR waits to merge automatically
+    behindBy: number; // Commits on the base branch missing from the head branch
+    commitMessages: string[]; // All PR commit messages, used to pre-fill squash merge messages
     authorLogin: string;
     authorAvatarUrl?: string | null;
     baseLabel: string; 
     headLabel: string; 
     body: string | null;
     createdAt: string; 
+    pendingReview: PendingReviewSummary | null; // Local review in progress, if any
+    currentUserLogin: string | null; // Used to show edit/delete on the user's own comments
+    bodyReactions: ReactionRollup | null; // Reactions on the PR description
+    viewerReactions: string[]; // `${target}:${id}:${content}` for reactions the signed-in user made
+    sidebar: PrSidebarData; // Reviewers, assignees, labels and milestone
+    checks: PrChecksData | null; // CI check runs and commit statuses for the head commit
 }
 
+type AutoMergeState = {
+    mergeMethod: MergeMethod;
+    enabledBy: string | null;
+};
+
+type PendingReviewSummary = {
+    draftCount: number;
+};
+
 // Timeline Item Structure 
 interface TimelineItemBase {
     timestamp: Date;
 }
+// Resolution state of a review thread (only available through GraphQL)
+type ReviewThreadState = {
+    id: string; // GraphQL node id, needed for resolve/unresolve
+    isResolved: boolean;
+};
+// Root review comment with its replies grouped by in_reply_to_id
+type ThreadedReviewComment = ReviewComment & {
+    replies?: ReviewComment[];
+    thread?: ReviewThreadState | null;
+};
 interface ReviewTimelineItem extends TimelineItemBase {
     type: 'review';
     // Associated comments directly to the data payload 
-    data: Review & { associated_comments?: ReviewComment[] };
+    data: Review & { associated_comments?: ThreadedReviewComment[] };
 }
 interface ReviewCommentTimelineItem extends TimelineItemBase {
     type: 'review_comment';
-    data: ReviewComment;
+    data: ThreadedReviewComment;
 }
 interface IssueCommentTimelineItem extends TimelineItemBase {
     type: 'issue_comment';
@@ -67,27 +195,73 @@ interface CommitTimelineItem extends TimelineItemBase {
     data: CommitListItem;
 }
 
+// Issue timeline events, normalized to the fields the webview needs
+type TimelineEventActor = { login: string; avatarUrl?: string | null };
+interface LabelTimelineItem extends TimelineItemBase {
+    type: 'labeled' | 'unlabeled';
+    data: { actor: TimelineEventActor; label: { name: string; color: string } };
+}
+interface ForcePushTimelineItem extends TimelineItemBase {
+    type: 'head_ref_force_pushed';
+    data: { actor: TimelineEventActor; headSha: string | null };
+}
+interface ReviewRequestTimelineItem extends TimelineItemBase {
+    type: 'review_requested' | 'review_request_removed';
+    data: { actor: TimelineEventActor; reviewer: string; isTeam: boolean };
+}
+interface RenameTimelineItem extends TimelineItemBase {
+    type: 'renamed';
+    data: { actor: TimelineEventActor; from: string; to: string };
+}
+interface StateChangeTimelineItem extends TimelineItemBase {
+    type: 'closed' | 'reopened' | 'merged';
+    data: { actor: TimelineEventActor; commitSha: string | null };
+}
+
 interface ChangedFile {
     path: string;
     status: 'A' | 'M' | 'D' | 'R' | 'C' | '?';
 }
 
-type TimelineItem = ReviewTimelineItem | ReviewCommentTimelineItem | IssueCommentTimelineItem | CommitTimelineItem;
+type TimelineItem =
+    | ReviewTimelineItem
+    | ReviewCommentTimelineItem
+    | IssueCommentTimelineItem
+    | CommitTimelineItem
+    | LabelTimelineItem
+    | ForcePushTimelineItem
+    | ReviewRequestTimelineItem
+    | RenameTimelineItem
+    | StateChangeTimelineItem;
 
 export type { TimelineItem }; // Export the main timeline type
 
 
 let prDataProvider: PrDataProvider | undefined;
 
+// Called on activation so the detail view can look up the signed-in user
+export function setPrDataProvider(provider: PrDataProvider) {
+    prDataProvider = provider;
+}
+
 interface ActivePrWebview {
     panel: vscode.WebviewPanel;
     prInfo: PullRequestInfo;
     lastCommentCheckTime?: Date; 
     currentTimeline?: TimelineItem[]; 
+    visibleTimelineCount?: number; // How many of the newest timeline items the webview shows
+    currentChecks?: PrChecksData | null;
+    viewerReactions?: string[]; // Sent along with timeline updates, so new items show the signed-in user's reactions
+    pollDelayMs?: number; // Grows while nothing changes, reset on changes
+    nextPollTime?: number; // Epoch ms, the panel is skipped by earlier polling ticks
 }
 const activePrDetailPanels = new Map<number, ActivePrWebview>(); // Keyed by PR number
 let pollingIntervalId: NodeJS.Timeout | undefined = undefined;
+let isPolling = false;
 const POLLING_INTERVAL_MS = 30000; // Poll every 30 seconds
+const MAX_POLL_DELAY_MS = 5 * 60 * 1000; // Back off to at most 5 minutes for quiet PRs
+const HIDDEN_POLL_DELAY_MS = 5 * 60 * 1000; // Panels in background tabs poll at most this often
+const TIMELINE_PAGE_SIZE = 50; // Timeline items sent per batch, older ones load on demand
 
 // WEBVIEW PANEL MANAGEMENT
 export async function createOrShowPrDetailWebview(context: vscode.ExtensionContext, prInfo: PullRequestInfo, isNewlyCreated?: boolean) {
@@ -123,6 +297,7 @@ export async function createOrShowPrDetailWebview(context: vscode.ExtensionConte
 
     const activeWebview: ActivePrWebview = { panel, prInfo, lastCommentCheckTime: new Date() };
     activePrDetailPanels.set(panelId, activeWebview);
+    scheduleNextPoll(activeWebview, true);
 
     // Set initial HTML and trigger data load + postMessage
     // This function handles both setting HTML and sending initial data now
@@ -148,6 +323,10 @@ export async function createOrShowPrDetailWebview(context: vscode.ExtensionConte
                     vscode.window.showErrorMessage(message.text);
                     return;
 
+                case 'viewAllChanges':
+                    await showAllChangesForPr(prInfo);
+                    return;
+
                  case 'webviewReady':
                      console.log(`PR Detail Webview for #${prInfo.number} is ready.`);
                      return;
@@ -165,9 +344,15 @@ export async function createOrShowPrDetailWebview(context: vscode.ExtensionConte
                             repo,
                             pull_number,
                             merge_method: mergeMethod, 
+                            // Empty values fall back to GitHub's defaults
+                            commit_title: message.data.commit_title || undefined,
+                            commit_message: message.data.commit_message || undefined,
                         });
                         if (response.status === 200 && response.data.merged) {
                             vscode.window.showInformationMessage(`PR #${pull_number} merged successfully using '${mergeMethod}'!`);
+                            if (message.data.delete_branch) {
+                                await deleteHeadBranch(octokit, prInfo);
+                            }
                             // Refresh the webview to show merged state
                             await updateWebviewContent(context, panel.webview, prInfo);
                         } else {
@@ -225,14 +410,371 @@ export async function createOrShowPrDetailWebview(context: vscode.ExtensionConte
                            await updateWebviewContent(context, panel.webview, prInfo);
                      }
                      return; 
+
+                 case 'reopenPr':
+                    if (!octokit) {
+                        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+                        return;
+                    }
+                     try {
+                          await octokit.pulls.update({
+                              owner,
+                              repo,
+                              pull_number,
+                              state: 'open',
+                          });
+                          vscode.window.showInformationMessage(`PR #${pull_number} reopened.`);
+                     } catch (err: any) {
+                           console.error(`Failed to reopen PR #${pull_number}:`, err);
+                           vscode.window.showErrorMessage(`Failed to reopen PR: ${err.message || 'Unknown error'}`);
+                     }
+                     // Refresh either way so the buttons match the actual state
+                     await updateWebviewContent(context, panel.webview, prInfo);
+                     return;
+
+                 case 'markReadyForReview':
+                 case 'convertToDraft': {
+                    if (!octokit) {
+                        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+                        return;
+                    }
+                     const makeDraft = message.command === 'convertToDraft';
+                     try {
+                          await setPullRequestDraft(octokit, prInfo, makeDraft);
+                          vscode.window.showInformationMessage(makeDraft ? `PR #${pull_number} converted to draft.` : `PR #${pull_number} is ready for review.`);
+                     } catch (err: any) {
+                           console.error(`Failed to ${makeDraft ? 'convert PR to draft' : 'mark PR ready for review'} #${pull_number}:`, err);
+                           vscode.window.showErrorMessage(`Failed to ${makeDraft ? 'convert to draft' : 'mark ready for review'}: ${err.message || 'Unknown error'}`);
+                     }
+                     await updateWebviewContent(context, panel.webview, prInfo);
+                     return;
+                 }
+
+                 case 'enableAutoMerge':
+                 case 'disableAutoMerge': {
+                    if (!octokit) {
+                        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+                        return;
+                    }
+                     const enable = message.command === 'enableAutoMerge';
+                     try {
+                          await setAutoMerge(octokit, prInfo, enable ? message.data.merge_method : null);
+                          vscode.window.showInformationMessage(enable
+                              ? `Auto-merge enabled for PR #${pull_number}. It will be merged once all requirements are met.`
+                              : `Auto-merge disabled for PR #${pull_number}.`);
+                     } catch (err: any) {
+                           console.error(`Failed to ${enable ? 'enable' : 'disable'} auto-merge for PR #${pull_number}:`, err);
+                           vscode.window.showErrorMessage(`Failed to ${enable ? 'enable' : 'disable'} auto-merge: ${err.message || 'Unknown error'}`);
+                     }
+                     await updateWebviewContent(context, panel.webview, prInfo);
+                     return;
+                 }
+
+                 case 'updateBranch':
+                    if (!octokit) {
+                        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+                        return;
+                    }
+                     try {
+                          await updatePullRequestBranch(octokit, prInfo, message.data.method);
+                          vscode.window.showInformationMessage(`Updated the branch of PR #${pull_number} with the latest base changes (${message.data.method}).`);
+                     } catch (err: any) {
+                           console.error(`Failed to update branch of PR #${pull_number}:`, err);
+                           vscode.window.showErrorMessage(`Failed to update branch: ${err.message || 'Unknown error'}`);
+                     }
+                     await updateWebviewContent(context, panel.webview, prInfo);
+                     return;
+
+                 case 'submitReview':
+                    if (!octokit) {
+                        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+                        return;
+                    }
+                     try {
+                          const reviewEvent = message.data?.event || 'COMMENT';
+                          // Send any draft comments from a pending review in the same call
+                          const pendingReview = getPendingReview(context, prInfo);
+                          const draftComments = (pendingReview?.comments || []).map(draft => ({
+                              path: draft.path,
+                              body: draft.body,
+                              line: draft.line,
+                              side: draft.side,
+                              ...(draft.start_line ? { start_line: draft.start_line, start_side: draft.start_side } : {}),
+                          }));
+                          await octokit.pulls.createReview({
+                              owner,
+                              repo,
+                              pull_number,
+                              event: reviewEvent,
+                              body: message.data?.body || undefined, // Body is optional for approvals
+                              comments: draftComments.length > 0 ? draftComments : undefined,
+                          });
+                          if (pendingReview) {
+                              await clearPendingReview(context, prInfo);
+                          }
+                          vscode.window.showInformationMessage(`Review submitted on PR #${pull_number}${draftComments.length > 0 ? ` with ${draftComments.length} comment(s)` : ''}.`);
+                          // Refresh so the new review shows up in the timeline
+                          await updateWebviewContent(context, panel.webview, prInfo);
+                     } catch (err: any) {
+                           console.error(`Failed to submit review on PR #${pull_number}:`, err);
+                           vscode.window.showErrorMessage(`Failed to submit review: ${err.message || 'Unknown error'}`);
+                           panel.webview.postMessage({ command: 'reviewSubmitFailed' });
+                     }
+                     return; 
+
+                 case 'replyToReviewComment':
+                    if (!octokit) {
+                        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+                        return;
+                    }
+                     try {
+                          await octokit.pulls.createReplyForReviewComment({
+                              owner,
+                              repo,
+                              pull_number,
+                              comment_id: message.data.commentId,
+                              body: message.data.text,
+                          });
+                          await refreshTimeline(octokit, prInfo, panel.webview);
+                     } catch (err: any) {
+                           console.error(`Failed to reply to review comment ${message.data.commentId} on PR #${pull_number}:`, err);
+                           vscode.window.showErrorMessage(`Failed to post reply: ${err.message || 'Unknown error'}`);
+                           panel.webview.postMessage({ command: 'threadActionFailed' });
+                     }
+                     return;
+
+                 case 'resolveReviewThread':
+                 case 'unresolveReviewThread':
+                    if (!octokit) {
+                        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+                        return;
+                    }
+                     try {
+                          await setReviewThreadResolved(octokit, message.data.threadId, message.command === 'resolveReviewThread');
+                          await refreshTimeline(octokit, prInfo, panel.webview);
+                     } catch (err: any) {
+                           const action = message.command === 'resolveReviewThread' ? 'resolve' : 'unresolve';
+                           console.error(`Failed to ${action} review thread ${message.data.threadId} on PR #${pull_number}:`, err);
+                           vscode.window.showErrorMessage(`Failed to ${action} conversation: ${err.message || 'Unknown error'}`);
+                           panel.webview.postMessage({ command: 'threadActionFailed' });
+                     }
+                     return;
+
+                 case 'editComment':
+                    if (!octokit) {
+                        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+                        return;
+                    }
+                     try {
+                          const { commentId, kind, body } = message.data;
+                          const response = kind === 'issue'
+                              ? await octokit.issues.updateComment({ owner, repo, comment_id: commentId, body })
+                              : await octokit.pulls.updateReviewComment({ owner, repo, comment_id: commentId, body });
+                          // Update the comment in place instead of reloading the whole view
+                          panel.webview.postMessage({ command: 'commentUpdated', data: { commentId, kind, body: response.data.body } });
+                     } catch (err: any) {
+                           console.error(`Failed to edit comment ${message.data.commentId} on PR #${pull_number}:`, err);
+                           vscode.window.showErrorMessage(`Failed to edit comment: ${err.message || 'Unknown error'}`);
+                           panel.webview.postMessage({ command: 'commentActionFailed', data: { commentId: message.data.commentId, kind: message.data.kind } });
+                     }
+                     return;
+
+                 case 'editPrDetails': {
+                    if (!octokit) {
+                        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+                        panel.webview.postMessage({ command: 'prEditFailed', data: { field: message.data.field } });
+                        return;
+                    }
+                     const { field, value, original } = message.data;
+                     const fieldName = field === 'title' ? 'title' : 'description';
+                     try {
+                          // Someone may have edited the PR since the panel loaded it
+                          const { data: currentPull } = await octokit.pulls.get({ owner, repo, pull_number });
+                          const remoteValue = field === 'title' ? currentPull.title : currentPull.body;
+                          if (normalizeLineEndings(remoteValue) !== normalizeLineEndings(original)) {
+                              const choice = await vscode.window.showWarningMessage(
+                                  `The ${fieldName} of PR #${pull_number} was changed on GitHub after you opened it. Overwrite it with your version?`,
+                                  { modal: true },
+                                  'Overwrite'
+                              );
+                              if (choice !== 'Overwrite') {
+                                  panel.webview.postMessage({ command: 'prEditFailed', data: { field } });
+                                  return;
+                              }
+                          }
+
+                          const { data: updatedPull } = await octokit.pulls.update({ owner, repo, pull_number, [field]: value });
+                          prInfo.title = updatedPull.title; // Regenerated HTML uses the title from prInfo
+                          panel.webview.postMessage({ command: 'prDetailsUpdated', data: { field, title: updatedPull.title, body: updatedPull.body } });
+                          if (field === 'title') {
+                              prDataProvider?.refresh();
+                          }
+                     } catch (err: any) {
+                           console.error(`Failed to update ${fieldName} of PR #${pull_number}:`, err);
+                           vscode.window.showErrorMessage(`Failed to update ${fieldName}: ${err.message || 'Unknown error'}`);
+                           panel.webview.postMessage({ command: 'prEditFailed', data: { field } });
+                     }
+                     return;
+                 }
+
+                 case 'deleteComment': {
+                    if (!octokit) {
+                        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+                        return;
+                    }
+                     const { commentId, kind } = message.data;
+                     const choice = await vscode.window.showWarningMessage('Delete this comment? This cannot be undone.', { modal: true }, 'Delete');
+                     if (choice !== 'Delete') {
+                         panel.webview.postMessage({ command: 'commentActionFailed', data: { commentId, kind } });
+                         return;
+                     }
+                     try {
+                          if (kind === 'issue') {
+                              await octokit.issues.deleteComment({ owner, repo, comment_id: commentId });
+                          } else {
+                              await octokit.pulls.deleteReviewComment({ owner, repo, comment_id: commentId });
+                          }
+                          panel.webview.postMessage({ command: 'commentDeleted', data: { commentId, kind } });
+                     } catch (err: any) {
+                           console.error(`Failed to delete comment ${commentId} on PR #${pull_number}:`, err);
+                           vscode.window.showErrorMessage(`Failed to delete comment: ${err.message || 'Unknown error'}`);
+                           panel.webview.postMessage({ command: 'commentActionFailed', data: { commentId, kind } });
+                     }
+                     return;
+                 }
+
+                 case 'rerunFailedChecks':
+                    if (!octokit) {
+                        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+                        return;
+                    }
+                     try {
+                          const suiteCount = await rerequestCheckSuites(octokit, prInfo, message.data.checkSuiteIds);
+                          vscode.window.showInformationMessage(`Re-requested ${suiteCount} check suite(s) for PR #${pull_number}.`);
+                          const checks = await fetchPrChecks(octokit, prInfo);
+                          const activeWebview = activePrDetailPanels.get(prInfo.number);
+                          if (activeWebview) { activeWebview.currentChecks = checks; }
+                          panel.webview.postMessage({ command: 'updateChecks', data: checks });
+                     } catch (err: any) {
+                           console.error(`Failed to re-run checks for PR #${pull_number}:`, err);
+                           vscode.window.showErrorMessage(`Failed to re-run checks: ${err.message || 'Unknown error'}`);
+                           panel.webview.postMessage({ command: 'updateChecks', data: activePrDetailPanels.get(prInfo.number)?.currentChecks || null });
+                     }
+                     return;
+
+                 case 'editMetadata':
+                    if (!octokit) {
+                        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+                        return;
+                    }
+                     try {
+                          const sidebarData = await editPrMetadata(octokit, prInfo, message.data.field);
+                          if (sidebarData) {
+                              panel.webview.postMessage({ command: 'updateSidebar', data: sidebarData });
+                          }
+                     } catch (err: any) {
+                           console.error(`Failed to update ${message.data.field} for PR #${pull_number}:`, err);
+                           vscode.window.showErrorMessage(`Failed to update ${message.data.field}: ${err.message || 'Unknown error'}`);
+                     }
+                     return;
+
+                 case 'toggleReaction':
+                    if (!octokit) {
+                        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+                        return;
+                    }
+                     try {
+                          const countChanged = message.data.add
+                              ? await addReaction(octokit, prInfo, message.data.target, message.data.id, message.data.content)
+                              : await removeReaction(octokit, prInfo, message.data.target, message.data.id, message.data.content);
+                          panel.webview.postMessage({ command: 'reactionToggled', data: { ...message.data, countChanged } });
+                          const activeWebview = activePrDetailPanels.get(prInfo.number);
+                          if (activeWebview?.viewerReactions) {
+                              const reactionKey = `${message.data.target}:${message.data.id}:${message.data.content}`;
+                              const others = activeWebview.viewerReactions.filter(key => key !== reactionKey);
+                              activeWebview.viewerReactions = message.data.add ? [...others, reactionKey] : others;
+                          }
+                     } catch (err: any) {
+                           console.error(`Failed to update reaction on ${message.data.target} ${message.data.id}:`, err);
+                           vscode.window.showErrorMessage(`Failed to update reaction: ${err.message || 'Unknown error'}`);
+                           panel.webview.postMessage({ command: 'reactionToggleFailed', data: { target: message.data.target, id: message.data.id } });
+                     }
+                     return;
+
+                 case 'loadCommitFiles':
+                    if (!octokit) {
+                        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+                        panel.webview.postMessage({ command: 'commitFilesFailed', data: { sha: message.data.sha } });
+                        return;
+                    }
+                     try {
+                          const commitFiles = await fetchCommitFiles(octokit, prInfo, message.data.sha);
+                          panel.webview.postMessage({ command: 'commitFiles', data: commitFiles });
+                     } catch (err: any) {
+                           console.error(`Failed to load files for commit ${message.data.sha} in PR #${pull_number}:`, err);
+                           vscode.window.showErrorMessage(`Failed to load commit files: ${err.message || 'Unknown error'}`);
+                           panel.webview.postMessage({ command: 'commitFilesFailed', data: { sha: message.data.sha } });
+                     }
+                     return;
+
+                 case 'showCommitFileDiff':
+                     await fetchAndShowCommitFileDiff(prInfo, message.data.sha, message.data.parentSha, message.data.file);
+                     return;
+
+                 case 'loadOlderTimeline': {
+                     const activeWebview = activePrDetailPanels.get(prInfo.number);
+                     const timeline = activeWebview?.currentTimeline;
+                     if (!activeWebview || !timeline) { return; }
+                     const visibleCount = Math.min(activeWebview.visibleTimelineCount || TIMELINE_PAGE_SIZE, timeline.length);
+                     const end = timeline.length - visibleCount;
+                     const start = Math.max(0, end - TIMELINE_PAGE_SIZE);
+                     activeWebview.visibleTimelineCount = visibleCount + (end - start);
+                     panel.webview.postMessage({ command: 'appendTimeline', data: { items: timeline.slice(start, end), olderCount: start, viewerReactions: activeWebview.viewerReactions || [] } });
+                     return;
+                 }
+
+                 case 'startReview':
+                     await startPendingReview(context, prInfo);
+                     vscode.window.showInformationMessage(`Review started on PR #${pull_number}. New comments on the diff will be saved as drafts until you submit.`);
+                     return;
+
+                 case 'discardReview': {
+                     const pendingReview = getPendingReview(context, prInfo);
+                     const draftCount = pendingReview?.comments.length || 0;
+                     if (draftCount > 0) {
+                         const choice = await vscode.window.showWarningMessage(`Discard the pending review and its ${draftCount} draft comment(s)?`, { modal: true }, 'Discard');
+                         if (choice !== 'Discard') { return; }
+                     }
+                     await clearPendingReview(context, prInfo);
+                     return;
+                 }
             }
         },
         undefined,
         context.subscriptions
     );
 
+    // Keep the draft count in the header in sync with the pending review
+    const pendingReviewListener = onDidChangePendingReview(changedPrInfo => {
+        if (changedPrInfo.repoOwner === prInfo.repoOwner && changedPrInfo.repoName === prInfo.repoName && changedPrInfo.number === prInfo.number) {
+            panel.webview.postMessage({ command: 'updatePendingReview', data: getPendingReviewSummary(context, prInfo) });
+        }
+    });
+
     startPollingIfNotRunning();
 
+    // Catch up right away when a backgrounded panel is shown again
+    let wasVisible = panel.visible;
+    panel.onDidChangeViewState(event => {
+        const becameVisible = event.webviewPanel.visible && !wasVisible;
+        wasVisible = event.webviewPanel.visible;
+        if (becameVisible) {
+            activeWebview.pollDelayMs = POLLING_INTERVAL_MS;
+            activeWebview.nextPollTime = 0;
+            pollForUpdates();
+        }
+    }, null, context.subscriptions);
+
     // DELAYED REFRESH FOR NEW PRS 
     if (isNewlyCreated) {
         const refreshDelayMs = 3000;
@@ -260,6 +802,7 @@ export async function createOrShowPrDetailWebview(context: vscode.ExtensionConte
         () => {
             console.log(`Panel for PR #${prInfo.number} disposed.`);
             activePrDetailPanels.delete(panelId);
+            pendingReviewListener.dispose();
             stopPollingIfNecessary();
         },
         null,
@@ -303,8 +846,14 @@ export async function updateWebviewContent(
     // Fetch the actual timeline data asynchronously.
     console.log(`[updateWebviewContent] Fetching full details for PR #${prInfo.number}...`);
     let prDetails: PrDetails | null = null;
+    let loadOlderTimeline: (() => Promise<TimelineItem[]>) | undefined;
     try {
-        prDetails = await fetchPrFullDetails(octokit, prInfo);
+        const result = await fetchPrFullDetails(octokit, prInfo);
+        if (result) {
+            prDetails = result.details;
+            prDetails.pendingReview = getPendingReviewSummary(context, prInfo);
+            loadOlderTimeline = result.loadOlderTimeline;
+        }
     } catch (fetchError) {
          console.error(`[updateWebviewContent] Error fetching full details for PR #${prInfo.number}:`, fetchError);
          webview.postMessage({ command: 'showError', message: `Error fetching PR details: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}` });
@@ -313,11 +862,19 @@ export async function updateWebviewContent(
 
     // Send the fetched data (or empty array on error) to the webview script.
     // The webview script's message listener will handle the 'loadTimeline' command.
+    const activeWebview = activePrDetailPanels.get(prInfo.number);
     if (prDetails) {
         console.log(`[updateWebviewContent] Sending details (timeline: ${prDetails.timeline.length}, mergeable: ${prDetails.mergeable_state}) to webview for PR #${prInfo.number}`);
+        // Only the newest items go out with the details so long PRs render quickly
+        const visibleCount = Math.min(TIMELINE_PAGE_SIZE, prDetails.timeline.length);
+        if (activeWebview) { activeWebview.visibleTimelineCount = visibleCount; }
         webview.postMessage({
             command: 'loadDetails',
-            data: prDetails
+            data: {
+                ...prDetails,
+                timeline: prDetails.timeline.slice(prDetails.timeline.length - visibleCount),
+                olderTimelineCount: prDetails.timeline.length - visibleCount,
+            }
         });
     } else {
          // Handle case where fetching details completely failed (error already shown)
@@ -325,14 +882,42 @@ export async function updateWebviewContent(
     }
 
     // Update internal state for polling (if applicable)
-    const activeWebview = activePrDetailPanels.get(prInfo.number);
     if (activeWebview) {
         activeWebview.prInfo = prInfo;
         activeWebview.currentTimeline = prDetails?.timeline; // Update stored timeline
+        activeWebview.currentChecks = prDetails?.checks;
+        activeWebview.viewerReactions = prDetails?.viewerReactions;
+    }
+
+    // The first render only had the newest pages, fetch the rest without blocking the caller
+    if (loadOlderTimeline) {
+        loadFullTimeline(loadOlderTimeline, prInfo, webview);
+    }
+}
+
+async function loadFullTimeline(loadOlderTimeline: () => Promise<TimelineItem[]>, prInfo: PullRequestInfo, webview: vscode.Webview) {
+    const isSamePanel = (activeWebview: ActivePrWebview | undefined): activeWebview is ActivePrWebview => activeWebview?.panel.webview === webview;
+    try {
+        const fullTimeline = await loadOlderTimeline();
+        const activeWebview = activePrDetailPanels.get(prInfo.number);
+        if (isSamePanel(activeWebview)) {
+            activeWebview.currentTimeline = fullTimeline;
+            postTimelineUpdate(activeWebview, fullTimeline);
+        }
+    } catch (err: any) {
+        console.error(`Failed to fetch older timeline items for PR #${prInfo.number}:`, err);
+        vscode.window.showErrorMessage(`Failed to fetch PR timeline: ${err.message || 'Unknown error'}`);
+        // Nothing to add, but replaces the loading indicator with what can still be loaded
+        const activeWebview = activePrDetailPanels.get(prInfo.number);
+        if (isSamePanel(activeWebview)) {
+            const olderCount = (activeWebview.currentTimeline?.length || 0) - (activeWebview.visibleTimelineCount || 0);
+            webview.postMessage({ command: 'appendTimeline', data: { items: [], olderCount: Math.max(0, olderCount), viewerReactions: activeWebview.viewerReactions || [] } });
+        }
     }
 }
 
-export async function fetchPrFullDetails(octokit: Octokit, prInfo: PullRequestInfo): Promise<PrDetails | null> {
+// `loadOlderTimeline` is set when `details.timeline` only holds the newest items
+export async function fetchPrFullDetails(octokit: Octokit, prInfo: PullRequestInfo): Promise<{ details: PrDetails; loadOlderTimeline?: () => Promise<TimelineItem[]> } | null> {
     const owner = prInfo.repoOwner;
     const repo = prInfo.repoName;
     const pull_number = prInfo.number;
@@ -342,22 +927,51 @@ export async function fetchPrFullDetails(octokit: Octokit, prInfo: PullRequestIn
         // We still need this for merge status and potentially other actions
         const { data: pullData } = await octokit.pulls.get({ owner, repo, pull_number });
 
-        // Get Timeline Data
-        const timeline = await fetchPrTimelineData(octokit, prInfo);
+        // Get the newest Timeline Data, plus reactions (the pulls endpoint does not include them)
+        const [{ timeline, loadOlderTimeline }, commitMessages, { data: issueData }, viewerReactions, checks, behindBy, sidebar] = await Promise.all([
+            fetchNewestTimelineData(octokit, prInfo),
+            fetchCommitMessages(octokit, prInfo),
+            octokit.issues.get({ owner, repo, issue_number: pull_number }),
+            fetchViewerReactions(octokit, prInfo),
+            fetchPrChecks(octokit, prInfo, pullData.head.sha).catch(error => {
+                console.error(`Failed to fetch checks for PR #${pull_number}:`, error);
+                return null; // The rest of the view still works without checks
+            }),
+            fetchBehindByCount(octokit, prInfo, pullData.base.ref, pullData.head.sha),
+            fetchPrSidebarData(octokit, prInfo, pullData)
+        ]);
 
-        return {
+        const details: PrDetails = {
+            number: pull_number,
+            title: pullData.title,
             timeline: timeline,
+            olderTimelineCount: 0, // The caller decides how much of the timeline to send
+            olderTimelineLoading: !!loadOlderTimeline,
             mergeable_state: pullData.mergeable_state,
             mergeable: pullData.mergeable,
             state: pullData.state as ('open' | 'closed'), // Add type assertion
             merged: pullData.merged || false, // Ensure boolean
+            draft: pullData.draft || false,
+            autoMerge: pullData.auto_merge ? {
+                mergeMethod: pullData.auto_merge.merge_method,
+                enabledBy: pullData.auto_merge.enabled_by?.login || null,
+            } : null,
+            behindBy: behindBy,
+            commitMessages: commitMessages,
             authorLogin: pullData.user?.login || 'unknown',
             authorAvatarUrl: pullData.user?.avatar_url,
             baseLabel: pullData.base?.label || 'unknown',
             headLabel: pullData.head?.label || 'unknown',
             body: pullData.body, // body
             createdAt: pullData.created_at, // creation date
+            pendingReview: null, // Filled in from workspaceState by the caller
+            currentUserLogin: prDataProvider?.getCurrentUser() || null,
+            bodyReactions: issueData.reactions || null,
+            viewerReactions: viewerReactions,
+            sidebar: sidebar,
+            checks: checks,
         };
+        return { details, loadOlderTimeline };
 
     } catch (error) {
         console.error(`Failed to fetch details for PR #${pull_number}:`, error);
@@ -366,6 +980,24 @@ export async function fetchPrFullDetails(octokit: Octokit, prInfo: PullRequestIn
     }
 }
 
+// Every commit of the PR, the timeline may only hold the newest ones
+async function fetchCommitMessages(octokit: Octokit, prInfo: PullRequestInfo): Promise<string[]> {
+    return octokit.paginate(
+        octokit.pulls.listCommits,
+        { owner: prInfo.repoOwner, repo: prInfo.repoName, pull_number: prInfo.number, per_page: 100 },
+        response => response.data.map(commit => commit.commit.message)
+    );
+}
+
+function getCommitMessages(timeline: TimelineItem[]): string[] {
+    return timeline.filter((item): item is CommitTimelineItem => item.type === 'commit').map(item => item.data.commit.message);
+}
+
+function getPendingReviewSummary(context: vscode.ExtensionContext, prInfo: PullRequestInfo): PendingReviewSummary | null {
+    const pendingReview = getPendingReview(context, prInfo);
+    return pendingReview ? { draftCount: pendingReview.comments.length } : null;
+}
+
 
 // DATA FETCHING FOR TIMELINE
 export async function fetchPrTimelineData(octokit: Octokit, prInfo: PullRequestInfo): Promise<TimelineItem[]> {
@@ -376,89 +1008,561 @@ export async function fetchPrTimelineData(octokit: Octokit, prInfo: PullRequestI
 
         console.log(`Workspaceing timeline data for PR #${pull_number}`);
 
-        const [reviewsResponse, reviewCommentsResponse, issueCommentsResponse, commitsResponse] = await Promise.all([
-            octokit.pulls.listReviews({ owner, repo, pull_number, per_page: 100 }), 
-            octokit.pulls.listReviewComments({ owner, repo, pull_number, per_page: 100 }),
-            octokit.issues.listComments({ owner, repo, issue_number: pull_number, per_page: 100 }),
-            octokit.pulls.listCommits({ owner, repo, pull_number, per_page: 100 })
+        const [{ sources }, threadStates] = await Promise.all([
+            fetchTimelineSources(octokit, prInfo),
+            fetchReviewThreadStates(octokit, prInfo)
         ]);
 
-        // Create a Map of Review Comments by Review ID
-        const commentsByReviewId = new Map<number, ReviewComment[]>();
-        reviewCommentsResponse.data.forEach(comment => {
-            if (comment.pull_request_review_id) {
-                const comments = commentsByReviewId.get(comment.pull_request_review_id) || [];
-                comments.push(comment);
-                commentsByReviewId.set(comment.pull_request_review_id, comments);
-            }
-        });
-        console.log(`Mapped ${commentsByReviewId.size} reviews with associated comments.`);
+        const timelineItems = buildTimeline(sources, threadStates);
+        console.log(`Processed ${timelineItems.length} final timeline items for PR #${pull_number}`);
+        return timelineItems;
+
+    } catch (e) {
+        console.error(`Failed to fetch PR timeline data for #${prInfo.number}:`, e);
+        if (e instanceof Error) {
+            vscode.window.showErrorMessage(`Failed to fetch PR timeline: ${e.message}`);
+        } else {
+            vscode.window.showErrorMessage(`Failed to fetch PR timeline: ${String(e)}`);
+        }
+        return []; 
+    }
+}
 
+// Every page of every REST source. `notModified` is true when all pages came back 304, then
+// the lists are unchanged since the previous fetch.
+async function fetchTimelineSources(octokit: Octokit, prInfo: PullRequestInfo): Promise<{ sources: TimelineSources; notModified: boolean }> {
+    const owner = prInfo.repoOwner;
+    const repo = prInfo.repoName;
+    const pull_number = prInfo.number;
 
-        // Initialize Timeline Items 
-        let timelineItems: TimelineItem[] = [];
+    let notModified = true;
+    const trackChanges = <T>(response: { data: T[] }): T[] => {
+        if (!isReplayedResponse(response)) {
+            notModified = false;
+        }
+        return response.data;
+    };
+
+    // Page through every source, long-running PRs easily exceed 100 items per source
+    const [reviews, reviewComments, issueComments, commits, timelineEvents] = await Promise.all([
+        octokit.paginate(octokit.pulls.listReviews, { owner, repo, pull_number, per_page: 100 }, trackChanges),
+        octokit.paginate(octokit.pulls.listReviewComments, { owner, repo, pull_number, per_page: 100 }, trackChanges),
+        octokit.paginate(octokit.issues.listComments, { owner, repo, issue_number: pull_number, per_page: 100 }, trackChanges),
+        octokit.paginate(octokit.pulls.listCommits, { owner, repo, pull_number, per_page: 100 }, trackChanges),
+        octokit.paginate(octokit.issues.listEventsForTimeline, { owner, repo, issue_number: pull_number, per_page: 100 }, trackChanges),
+    ]);
+    return { sources: { reviews, reviewComments, issueComments, commits, timelineEvents }, notModified };
+}
 
-        // Process Reviews and Attach Comments 
-        reviewsResponse.data.forEach(review => {
-            // Filter out 'PENDING' reviews unless you want to show them
-             if (review.state !== 'PENDING' && review.submitted_at) {
-                 // Find associated comments from the map
-                 const associated_comments = commentsByReviewId.get(review.id) || [];
-                 if(associated_comments.length > 0) {
-                     console.log(`Attaching ${associated_comments.length} comments to review ${review.id}`);
-                 }
-                 // Add the review submission, INCLUDING the associated comments in its data
-                 timelineItems.push({
-                     type: 'review',
-                     // Cast review to include the optional property
-                     data: { ...review, associated_comments: associated_comments },
-                     timestamp: new Date(review.submitted_at)
-                 });
-             }
-        });
+// Only the newest part of the timeline, from the last pages of each source, so the panel can
+// render before every page of a long PR has loaded. `loadOlderTimeline` is set when older items
+// were left out, it fetches the missing pages and returns the complete timeline.
+async function fetchNewestTimelineData(octokit: Octokit, prInfo: PullRequestInfo): Promise<{ timeline: TimelineItem[]; loadOlderTimeline?: () => Promise<TimelineItem[]> }> {
+    const owner = prInfo.repoOwner;
+    const repo = prInfo.repoName;
+    const pull_number = prInfo.number;
+
+    const [reviews, reviewComments, issueComments, commits, timelineEvents, threadStates] = await Promise.all([
+        fetchNewestPages(page => octokit.pulls.listReviews({ owner, repo, pull_number, per_page: 100, page })),
+        fetchNewestPages(page => octokit.pulls.listReviewComments({ owner, repo, pull_number, per_page: 100, page })),
+        fetchNewestPages(page => octokit.issues.listComments({ owner, repo, issue_number: pull_number, per_page: 100, page })),
+        fetchNewestPages(page => octokit.pulls.listCommits({ owner, repo, pull_number, per_page: 100, page })),
+        fetchNewestPages(page => octokit.issues.listEventsForTimeline({ owner, repo, issue_number: pull_number, per_page: 100, page })),
+        fetchReviewThreadStates(octokit, prInfo)
+    ]);
+
+    const timeline = buildTimeline({
+        reviews: reviews.items,
+        reviewComments: reviewComments.items,
+        issueComments: issueComments.items,
+        commits: commits.items,
+        timelineEvents: timelineEvents.items,
+    }, threadStates);
+
+    // Everything after the oldest fetched item of each truncated source is known to be complete
+    const cutoffs = [
+        oldestTime(reviews, review => review.submitted_at),
+        oldestTime(reviewComments, comment => comment.created_at),
+        oldestTime(issueComments, comment => comment.created_at),
+        oldestTime(commits, commit => commit.commit.author?.date),
+        oldestTime(timelineEvents, event => event.created_at),
+    ].filter((cutoff): cutoff is number => cutoff !== undefined);
+    if (cutoffs.length === 0) {
+        return { timeline };
+    }
+    const cutoff = Math.max(...cutoffs);
+    const loadOlderTimeline = async () => {
+        const [allReviews, allReviewComments, allIssueComments, allCommits, allTimelineEvents] = await Promise.all([
+            reviews.fetchAll(),
+            reviewComments.fetchAll(),
+            issueComments.fetchAll(),
+            commits.fetchAll(),
+            timelineEvents.fetchAll(),
+        ]);
+        return buildTimeline({
+            reviews: allReviews,
+            reviewComments: allReviewComments,
+            issueComments: allIssueComments,
+            commits: allCommits,
+            timelineEvents: allTimelineEvents,
+        }, threadStates);
+    };
+    return { timeline: timeline.filter(item => item.timestamp.getTime() >= cutoff), loadOlderTimeline };
+}
+
+// The newest pages of a source. `fetchAll` returns every item, fetching only the pages not loaded yet.
+type NewestPages<T> = {
+    items: T[];
+    complete: boolean;
+    fetchAll: () => Promise<T[]>;
+};
+
+// GitHub lists these sources oldest first, so the newest items are on the last pages
+async function fetchNewestPages<T>(fetchPage: (page: number) => Promise<{ data: T[]; headers: { link?: string } }>): Promise<NewestPages<T>> {
+    const first = await fetchPage(1);
+    const lastPage = getLastPageNumber(first.headers.link);
+    if (lastPage <= 1) {
+        return { items: first.data, complete: true, fetchAll: async () => first.data };
+    }
+    if (lastPage === 2) {
+        const { data } = await fetchPage(2);
+        const items = [...first.data, ...data];
+        return { items, complete: true, fetchAll: async () => items };
+    }
+    // Two pages, so a short last page still leaves enough items for the first render
+    const pages = await Promise.all([fetchPage(lastPage - 1), fetchPage(lastPage)]);
+    const newest = pages.flatMap(page => page.data);
+    return {
+        items: newest,
+        complete: false,
+        fetchAll: async () => {
+            const middlePageNumbers = Array.from({ length: lastPage - 3 }, (_, index) => index + 2);
+            const middlePages = await Promise.all(middlePageNumbers.map(fetchPage));
+            return [...first.data, ...middlePages.flatMap(page => page.data), ...newest];
+        },
+    };
+}
+
+function getLastPageNumber(link: string | undefined): number {
+    const lastUrl = link?.match(/<([^>]+)>;\s*rel="last"/)?.[1];
+    return lastUrl ? Number(new URL(lastUrl).searchParams.get('page')) || 1 : 1;
+}
+
+// Oldest timestamp of a truncated source, undefined when the source was fetched completely
+function oldestTime<T>(source: NewestPages<T>, getDate: (item: T) => string | null | undefined): number | undefined {
+    if (source.complete) {
+        return undefined;
+    }
+    const times = source.items.map(getDate).filter((date): date is string => !!date).map(date => new Date(date).getTime());
+    return times.length > 0 ? Math.min(...times) : undefined;
+}
+
+// Merges the raw lists into one chronological timeline
+function buildTimeline(sources: TimelineSources, threadStates: Map<number, ReviewThreadState>): TimelineItem[] {
+    const { reviews, reviewComments, issueComments, commits, timelineEvents } = sources;
+
+    // Group replies under their root comment so they render as one thread
+    const repliesByRootId = new Map<number, ReviewComment[]>();
+    reviewComments.forEach(comment => {
+        if (comment.in_reply_to_id) {
+            const replies = repliesByRootId.get(comment.in_reply_to_id) || [];
+            replies.push(comment);
+            repliesByRootId.set(comment.in_reply_to_id, replies);
+        }
+    });
+    const rootComments: ThreadedReviewComment[] = reviewComments
+        .filter(comment => !comment.in_reply_to_id)
+        .map(comment => ({
+            ...comment,
+            replies: repliesByRootId.get(comment.id) || [],
+            thread: threadStates.get(comment.id) || null,
+        }));
+
+    // Create a Map of Review Comments by Review ID
+    const commentsByReviewId = new Map<number, ThreadedReviewComment[]>();
+    rootComments.forEach(comment => {
+        if (comment.pull_request_review_id) {
+            const comments = commentsByReviewId.get(comment.pull_request_review_id) || [];
+            comments.push(comment);
+            commentsByReviewId.set(comment.pull_request_review_id, comments);
+        }
+    });
+    console.log(`Mapped ${commentsByReviewId.size} reviews with associated comments.`);
 
-        //  Process Other Timeline Items (Review Comments, Issue Comments, Commits) 
 
-        // Add standalone review comments (these should ideally be filtered later)
-        reviewCommentsResponse.data.forEach(item => timelineItems.push({ type: 'review_comment', data: item, timestamp: new Date(item.created_at) }));
-        // Add issue comments
-        issueCommentsResponse.data.forEach(item => timelineItems.push({ type: 'issue_comment', data: item, timestamp: new Date(item.created_at) }));
-        // Add commits
-        commitsResponse.data.forEach(item => {
-             if(item.commit.author?.date) {
-                 timelineItems.push({ type: 'commit', data: item, timestamp: new Date(item.commit.author.date) });
+    // Initialize Timeline Items 
+    let timelineItems: TimelineItem[] = [];
+
+    // Process Reviews and Attach Comments 
+    reviews.forEach(review => {
+        // Filter out 'PENDING' reviews unless you want to show them
+         if (review.state !== 'PENDING' && review.submitted_at) {
+             // Find associated comments from the map
+             const associated_comments = commentsByReviewId.get(review.id) || [];
+             if(associated_comments.length > 0) {
+                 console.log(`Attaching ${associated_comments.length} comments to review ${review.id}`);
              }
-        });
+             // Add the review submission, INCLUDING the associated comments in its data
+             timelineItems.push({
+                 type: 'review',
+                 // Cast review to include the optional property
+                 data: { ...review, associated_comments: associated_comments },
+                 timestamp: new Date(review.submitted_at)
+             });
+         }
+    });
+
+    //  Process Other Timeline Items (Review Comments, Issue Comments, Commits) 
+
+    // Add standalone review comments (these should ideally be filtered later)
+    rootComments.forEach(item => timelineItems.push({ type: 'review_comment', data: item, timestamp: new Date(item.created_at) }));
+    // Add issue comments
+    issueComments.forEach(item => timelineItems.push({ type: 'issue_comment', data: item, timestamp: new Date(item.created_at) }));
+    // Add commits
+    commits.forEach(item => {
+         if(item.commit.author?.date) {
+             timelineItems.push({ type: 'commit', data: item, timestamp: new Date(item.commit.author.date) });
+         }
+    });
+    // Add label, review request, rename, force-push and state change events
+    timelineItems.push(...mapTimelineEvents(timelineEvents));
+
+
+
+    // Re-enable the Filter 
+    // Filter out standalone review comments that BELONG to a fetched review submission
+    const submittedReviewIds = new Set(reviews.map(r => r.id));
+    const originalCount = timelineItems.length; 
+    timelineItems = timelineItems.filter(item =>
+        !(item.type === 'review_comment' && item.data.pull_request_review_id && submittedReviewIds.has(item.data.pull_request_review_id))
+    );
+    console.log(`Filtered out ${originalCount - timelineItems.length} standalone review comments associated with fetched reviews.`);
 
 
+    // Sort the Final Timeline 
+    timelineItems.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    return timelineItems;
+}
 
-        // Re-enable the Filter 
-        // Filter out standalone review comments that BELONG to a fetched review submission
-        const submittedReviewIds = new Set(reviewsResponse.data.map(r => r.id));
-        const originalCount = timelineItems.length; 
-        timelineItems = timelineItems.filter(item =>
-            !(item.type === 'review_comment' && item.data.pull_request_review_id && submittedReviewIds.has(item.data.pull_request_review_id))
+// Converts the events we render; comments, reviews and commits come from their own endpoints
+export function mapTimelineEvents(events: TimelineEvent[]): TimelineItem[] {
+    const items: TimelineItem[] = [];
+    // GitHub records a 'closed' event next to every 'merged' one, only show the merge
+    const mergedAt = new Set(events.filter(e => e.event === 'merged').map(e => e.created_at));
+
+    events.forEach(event => {
+        if (!event.created_at) { return; }
+        const timestamp = new Date(event.created_at);
+        const actor: TimelineEventActor = { login: event.actor?.login || 'ghost', avatarUrl: event.actor?.avatar_url };
+
+        switch (event.event) {
+            case 'labeled':
+            case 'unlabeled':
+                if (event.label) {
+                    items.push({ type: event.event, data: { actor, label: { name: event.label.name, color: event.label.color } }, timestamp });
+                }
+                break;
+            case 'head_ref_force_pushed':
+                items.push({ type: 'head_ref_force_pushed', data: { actor, headSha: event.commit_id || null }, timestamp });
+                break;
+            case 'review_requested':
+            case 'review_request_removed': {
+                const reviewer = event.requested_reviewer?.login || event.requested_team?.name;
+                if (reviewer) {
+                    items.push({ type: event.event, data: { actor, reviewer, isTeam: !event.requested_reviewer }, timestamp });
+                }
+                break;
+            }
+            case 'renamed':
+                if (event.rename) {
+                    items.push({ type: 'renamed', data: { actor, from: event.rename.from, to: event.rename.to }, timestamp });
+                }
+                break;
+            case 'closed':
+                if (mergedAt.has(event.created_at)) { break; }
+                items.push({ type: 'closed', data: { actor, commitSha: null }, timestamp });
+                break;
+            case 'reopened':
+            case 'merged':
+                items.push({ type: event.event, data: { actor, commitSha: event.commit_id || null }, timestamp });
+                break;
+        }
+    });
+    return items;
+}
+
+// REVIEW THREADS (GraphQL)
+// Maps the database id of each thread's first comment to its thread state
+async function fetchReviewThreadStates(octokit: Octokit, prInfo: PullRequestInfo): Promise<Map<number, ReviewThreadState>> {
+    const threadStates = new Map<number, ReviewThreadState>();
+    try {
+        let cursor: string | null = null;
+        do {
+            const result: ReviewThreadsResponse = await octokit.graphql<ReviewThreadsResponse>(`
+                query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+                    repository(owner: $owner, name: $repo) {
+                        pullRequest(number: $number) {
+                            reviewThreads(first: 100, after: $cursor) {
+                                nodes {
+                                    id
+                                    isResolved
+                                    comments(first: 1) { nodes { databaseId } }
+                                }
+                                pageInfo { hasNextPage endCursor }
+                            }
+                        }
+                    }
+                }`, { owner: prInfo.repoOwner, repo: prInfo.repoName, number: prInfo.number, cursor });
+
+            const reviewThreads = result?.repository?.pullRequest?.reviewThreads;
+            (reviewThreads?.nodes || []).forEach(thread => {
+                const rootCommentId = thread?.comments?.nodes?.[0]?.databaseId;
+                if (rootCommentId) {
+                    threadStates.set(rootCommentId, { id: thread.id, isResolved: !!thread.isResolved });
+                }
+            });
+            cursor = reviewThreads?.pageInfo.hasNextPage ? reviewThreads.pageInfo.endCursor : null;
+        } while (cursor);
+    } catch (error) {
+        // Threads still render without resolve state if this fails
+        console.error(`Failed to fetch review thread states for PR #${prInfo.number}:`, error);
+    }
+    return threadStates;
+}
+
+async function setReviewThreadResolved(octokit: Octokit, threadId: string, resolved: boolean) {
+    const mutation = resolved
+        ? `mutation($threadId: ID!) { resolveReviewThread(input: { threadId: $threadId }) { thread { id isResolved } } }`
+        : `mutation($threadId: ID!) { unresolveReviewThread(input: { threadId: $threadId }) { thread { id isResolved } } }`;
+    await octokit.graphql(mutation, { threadId });
+}
+
+// PULL REQUEST ACTIONS
+// GraphQL mutations address the PR by its node id
+async function getPullRequestNodeId(octokit: Octokit, prInfo: PullRequestInfo): Promise<string> {
+    const { data: pullData } = await octokit.pulls.get({ owner: prInfo.repoOwner, repo: prInfo.repoName, pull_number: prInfo.number });
+    return pullData.node_id;
+}
+
+// Draft state can only be changed through GraphQL
+async function setPullRequestDraft(octokit: Octokit, prInfo: PullRequestInfo, draft: boolean) {
+    const mutation = draft
+        ? `mutation($pullRequestId: ID!) { convertPullRequestToDraft(input: { pullRequestId: $pullRequestId }) { pullRequest { id isDraft } } }`
+        : `mutation($pullRequestId: ID!) { markPullRequestReadyForReview(input: { pullRequestId: $pullRequestId }) { pullRequest { id isDraft } } }`;
+    await octokit.graphql(mutation, { pullRequestId: await getPullRequestNodeId(octokit, prInfo) });
+}
+
+// Enables auto-merge with the given method, or disables it when mergeMethod is null
+async function setAutoMerge(octokit: Octokit, prInfo: PullRequestInfo, mergeMethod: MergeMethod | null) {
+    const pullRequestId = await getPullRequestNodeId(octokit, prInfo);
+    if (mergeMethod) {
+        await octokit.graphql(
+            `mutation($pullRequestId: ID!, $mergeMethod: PullRequestMergeMethod!) { enablePullRequestAutoMerge(input: { pullRequestId: $pullRequestId, mergeMethod: $mergeMethod }) { pullRequest { id } } }`,
+            { pullRequestId, mergeMethod: mergeMethod.toUpperCase() }
+        );
+    } else {
+        await octokit.graphql(
+            `mutation($pullRequestId: ID!) { disablePullRequestAutoMerge(input: { pullRequestId: $pullRequestId }) { pullRequest { id } } }`,
+            { pullRequestId }
         );
-        console.log(`Filtered out ${originalCount - timelineItems.length} standalone review comments associated with fetched reviews.`);
+    }
+}
 
+// Brings the head branch up to date with the base; the REST endpoint only supports merging
+async function updatePullRequestBranch(octokit: Octokit, prInfo: PullRequestInfo, method: 'merge' | 'rebase') {
+    await octokit.graphql(
+        `mutation($pullRequestId: ID!, $updateMethod: PullRequestBranchUpdateMethod!) { updatePullRequestBranch(input: { pullRequestId: $pullRequestId, updateMethod: $updateMethod }) { pullRequest { id } } }`,
+        { pullRequestId: await getPullRequestNodeId(octokit, prInfo), updateMethod: method.toUpperCase() }
+    );
+}
 
-        // Sort the Final Timeline 
-        timelineItems.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+// How many base branch commits the head branch is missing (0 if it cannot be determined)
+async function fetchBehindByCount(octokit: Octokit, prInfo: PullRequestInfo, baseRef: string, headSha: string): Promise<number> {
+    try {
+        // Comparing head...base: commits "ahead" on the base branch are the ones head is behind.
+        // Uses the branch name since the PR's base.sha can lag behind the branch tip.
+        const { data: comparison } = await octokit.repos.compareCommits({ owner: prInfo.repoOwner, repo: prInfo.repoName, base: headSha, head: baseRef, per_page: 1 });
+        return comparison.ahead_by;
+    } catch (error) {
+        console.error(`Failed to compare branches for PR #${prInfo.number}:`, error);
+        return 0;
+    }
+}
 
-        console.log(`Processed ${timelineItems.length} final timeline items for PR #${pull_number}`);
-        return timelineItems;
+// Deletes the merged head branch on GitHub and the matching local branch
+async function deleteHeadBranch(octokit: Octokit, prInfo: PullRequestInfo) {
+    const { data: pullData } = await octokit.pulls.get({ owner: prInfo.repoOwner, repo: prInfo.repoName, pull_number: prInfo.number });
+    const headRef = pullData.head.ref;
+    const headRepo = pullData.head.repo;
 
-    } catch (e) {
-        console.error(`Failed to fetch PR timeline data for #${prInfo.number}:`, e);
-        if (e instanceof Error) {
-            vscode.window.showErrorMessage(`Failed to fetch PR timeline: ${e.message}`);
-        } else {
-            vscode.window.showErrorMessage(`Failed to fetch PR timeline: ${String(e)}`);
+    if (!headRepo) {
+        vscode.window.showWarningMessage(`The head repository of PR #${prInfo.number} no longer exists, so branch '${headRef}' was not deleted.`);
+    } else {
+        try {
+            await octokit.git.deleteRef({ owner: headRepo.owner.login, repo: headRepo.name, ref: `heads/${headRef}` });
+            console.log(`Deleted remote branch ${headRepo.full_name}:${headRef}`);
+        } catch (err: any) {
+            console.error(`Failed to delete remote branch ${headRef} for PR #${prInfo.number}:`, err);
+            vscode.window.showErrorMessage(`Failed to delete branch '${headRef}' on GitHub: ${err.message || 'Unknown error'}`);
         }
-        return []; 
+    }
+
+    try {
+        const deleted = await deleteLocalPrBranches({
+            prNumber: prInfo.number,
+            headOwner: headRepo?.owner.login,
+            headRepo: headRepo?.name,
+            headRef,
+        });
+        if (deleted.length > 0) {
+            vscode.window.showInformationMessage(`Deleted local branch${deleted.length > 1 ? 'es' : ''} ${deleted.map(name => `'${name}'`).join(', ')} of PR #${prInfo.number}.`);
+        }
+    } catch (err: any) {
+        console.error(`Failed to delete local branch ${headRef}:`, err);
+        vscode.window.showErrorMessage(`Failed to delete local branch '${headRef}': ${err.message || 'Unknown error'}`);
     }
 }
 
+// REACTIONS
+const GRAPHQL_REACTION_CONTENT: Record<string, ReactionContent> = {
+    THUMBS_UP: '+1', THUMBS_DOWN: '-1', LAUGH: 'laugh', CONFUSED: 'confused',
+    HEART: 'heart', HOORAY: 'hooray', ROCKET: 'rocket', EYES: 'eyes'
+};
+
+// REST reaction rollups only carry counts, so ask GraphQL which ones are the viewer's
+async function fetchViewerReactions(octokit: Octokit, prInfo: PullRequestInfo): Promise<string[]> {
+    const viewerReactions: string[] = [];
+    const collect = (target: ReactionTargetKind, id: number, groups: ReactionGroupNode[] | null | undefined) => {
+        (groups || []).forEach(group => {
+            const content = GRAPHQL_REACTION_CONTENT[group.content];
+            if (group.viewerHasReacted && content) {
+                viewerReactions.push(`${target}:${id}:${content}`);
+            }
+        });
+    };
+
+    try {
+        // Comments and threads page independently, a connection is skipped once it has no more pages
+        let commentsCursor: string | null = null;
+        let threadsCursor: string | null = null;
+        let withComments = true;
+        let withThreads = true;
+        let isFirstPage = true;
+        do {
+            const result: ViewerReactionsResponse = await octokit.graphql<ViewerReactionsResponse>(`
+                query($owner: String!, $repo: String!, $number: Int!, $commentsCursor: String, $threadsCursor: String, $withComments: Boolean!, $withThreads: Boolean!) {
+                    repository(owner: $owner, name: $repo) {
+                        pullRequest(number: $number) {
+                            reactionGroups { content viewerHasReacted }
+                            comments(first: 100, after: $commentsCursor) @include(if: $withComments) {
+                                nodes { databaseId reactionGroups { content viewerHasReacted } }
+                                pageInfo { hasNextPage endCursor }
+                            }
+                            reviewThreads(first: 100, after: $threadsCursor) @include(if: $withThreads) {
+                                nodes {
+                                    comments(first: 100) {
+                                        nodes { databaseId reactionGroups { content viewerHasReacted } }
+                                    }
+                                }
+                                pageInfo { hasNextPage endCursor }
+                            }
+                        }
+                    }
+                }`, { owner: prInfo.repoOwner, repo: prInfo.repoName, number: prInfo.number, commentsCursor, threadsCursor, withComments, withThreads });
+
+            const pullRequest = result?.repository?.pullRequest;
+            if (isFirstPage) {
+                collect('issue', prInfo.number, pullRequest?.reactionGroups);
+                isFirstPage = false;
+            }
+            (pullRequest?.comments?.nodes || []).forEach(comment => collect('issue_comment', comment.databaseId, comment.reactionGroups));
+            (pullRequest?.reviewThreads?.nodes || []).forEach(thread => {
+                (thread?.comments?.nodes || []).forEach(comment => collect('review_comment', comment.databaseId, comment.reactionGroups));
+            });
+
+            withComments = !!pullRequest?.comments?.pageInfo.hasNextPage;
+            commentsCursor = pullRequest?.comments?.pageInfo.endCursor || null;
+            withThreads = !!pullRequest?.reviewThreads?.pageInfo.hasNextPage;
+            threadsCursor = pullRequest?.reviewThreads?.pageInfo.endCursor || null;
+        } while (withComments || withThreads);
+    } catch (error) {
+        // Reactions still show their counts, just without highlighting
+        console.error(`Failed to fetch viewer reactions for PR #${prInfo.number}:`, error);
+    }
+    return viewerReactions;
+}
+
+// Resolves to false when the reaction already existed (GitHub answers 200 instead of 201)
+async function addReaction(octokit: Octokit, prInfo: PullRequestInfo, target: ReactionTargetKind, id: number, content: ReactionContent): Promise<boolean> {
+    const owner = prInfo.repoOwner;
+    const repo = prInfo.repoName;
+    let status: number;
+    switch (target) {
+        case 'issue': ({ status } = await octokit.reactions.createForIssue({ owner, repo, issue_number: id, content })); break;
+        case 'issue_comment': ({ status } = await octokit.reactions.createForIssueComment({ owner, repo, comment_id: id, content })); break;
+        case 'review_comment': ({ status } = await octokit.reactions.createForPullRequestReviewComment({ owner, repo, comment_id: id, content })); break;
+    }
+    return status === 201;
+}
+
+// Deleting needs the reaction id, so look up the signed-in user's reaction first.
+// Resolves to false when there was no reaction left to delete.
+async function removeReaction(octokit: Octokit, prInfo: PullRequestInfo, target: ReactionTargetKind, id: number, content: ReactionContent): Promise<boolean> {
+    const owner = prInfo.repoOwner;
+    const repo = prInfo.repoName;
+    const currentUser = prDataProvider?.getCurrentUser();
+    if (!currentUser) {
+        throw new Error('Signed-in GitHub user is not known yet.');
+    }
+
+    let reactions: { id: number; user: { login: string } | null }[];
+    switch (target) {
+        case 'issue': reactions = await octokit.paginate(octokit.reactions.listForIssue, { owner, repo, issue_number: id, content, per_page: 100 }); break;
+        case 'issue_comment': reactions = await octokit.paginate(octokit.reactions.listForIssueComment, { owner, repo, comment_id: id, content, per_page: 100 }); break;
+        case 'review_comment': reactions = await octokit.paginate(octokit.reactions.listForPullRequestReviewComment, { owner, repo, comment_id: id, content, per_page: 100 }); break;
+    }
+
+    const ownReaction = reactions.find(reaction => reaction.user?.login === currentUser);
+    if (!ownReaction) {
+        return false; // Already gone
+    }
+    switch (target) {
+        case 'issue': await octokit.reactions.deleteForIssue({ owner, repo, issue_number: id, reaction_id: ownReaction.id }); break;
+        case 'issue_comment': await octokit.reactions.deleteForIssueComment({ owner, repo, comment_id: id, reaction_id: ownReaction.id }); break;
+        case 'review_comment': await octokit.reactions.deleteForPullRequestComment({ owner, repo, comment_id: id, reaction_id: ownReaction.id }); break;
+    }
+    return true;
+}
+
+// Refetch only the timeline and push it to the webview (no HTML reload)
+async function refreshTimeline(octokit: Octokit, prInfo: PullRequestInfo, webview: vscode.Webview) {
+    const [newTimeline, viewerReactions] = await Promise.all([
+        fetchPrTimelineData(octokit, prInfo),
+        fetchViewerReactions(octokit, prInfo)
+    ]);
+    const activeWebview = activePrDetailPanels.get(prInfo.number);
+    if (activeWebview) {
+        activeWebview.currentTimeline = newTimeline;
+        activeWebview.viewerReactions = viewerReactions;
+        postTimelineUpdate(activeWebview, newTimeline);
+    } else {
+        webview.postMessage({ command: 'updateTimeline', timeline: newTimeline, olderCount: 0, commitMessages: getCommitMessages(newTimeline), viewerReactions });
+    }
+}
+
+// Sends the newest part of the timeline, keeping as many items as the webview already shows
+function postTimelineUpdate(activeWebview: ActivePrWebview, timeline: TimelineItem[]) {
+    const visibleCount = Math.min(Math.max(activeWebview.visibleTimelineCount || 0, TIMELINE_PAGE_SIZE), timeline.length);
+    activeWebview.visibleTimelineCount = visibleCount;
+    activeWebview.panel.webview.postMessage({
+        command: 'updateTimeline',
+        timeline: timeline.slice(timeline.length - visibleCount),
+        olderCount: timeline.length - visibleCount,
+        commitMessages: getCommitMessages(timeline),
+        viewerReactions: activeWebview.viewerReactions || [],
+    });
+}
+
 // POLLING LOGIC
 export function startPollingIfNotRunning() {
     if (!pollingIntervalId && activePrDetailPanels.size > 0) {
@@ -481,19 +1585,41 @@ export async function pollForUpdates() {
         return;
     }
 
-    console.log(`Polling for updates on ${activePrDetailPanels.size} PR(s)...`);
+    if (isPolling) {
+        console.log("Polling skipped: Previous cycle still running.");
+        return;
+    }
+
+    // Panels that were quiet or hidden are only polled once their backoff expires
+    const now = Date.now();
+    const duePanels = Array.from(activePrDetailPanels.values()).filter(activeWebview => (activeWebview.nextPollTime || 0) <= now + 1000);
+    if (duePanels.length === 0) {
+        console.log("Polling skipped: No PR panels due for an update.");
+        return;
+    }
+
+    console.log(`Polling for updates on ${duePanels.length} of ${activePrDetailPanels.size} PR(s)...`);
     const octokit = await getOctokit();
     if (!octokit) {
         console.warn("Polling skipped: Octokit not available.");
         return;
     }
 
+    isPolling = true;
     // Use Promise.all to poll concurrently
-    const updateChecks = Array.from(activePrDetailPanels.values()).map(async (activeWebview) => {
+    const updateChecks = duePanels.map(async (activeWebview) => {
+        let hasAnyChange = false;
 
         try {
             const prInfo = activeWebview.prInfo;
-            const newTimeline = await fetchPrTimelineData(octokit, prInfo);
+            const { sources, notModified } = await fetchTimelineSources(octokit, prInfo);
+
+            // Unchanged REST lists mean nothing new to show, so the GraphQL thread query
+            // (which has no conditional requests) is only sent when something changed
+            let newTimeline = activeWebview.currentTimeline;
+            if (!notModified || !newTimeline) {
+                newTimeline = buildTimeline(sources, await fetchReviewThreadStates(octokit, prInfo));
+            }
 
             // Check if the timeline has changed
             const hasChanged = JSON.stringify(newTimeline) !== JSON.stringify(activeWebview.currentTimeline);
@@ -501,10 +1627,9 @@ export async function pollForUpdates() {
             if (hasChanged) {
                 console.log(`Timeline changed for PR #${prInfo.number}. Notifying webview.`);
                 activeWebview.currentTimeline = newTimeline; // Update stored timeline
-                activeWebview.panel.webview.postMessage({
-                    command: 'updateTimeline',
-                    timeline: newTimeline
-                });
+                activeWebview.viewerReactions = await fetchViewerReactions(octokit, prInfo); // New comments may carry reactions
+                postTimelineUpdate(activeWebview, newTimeline);
+                hasAnyChange = true;
             } else {
                  console.log(`No changes detected for PR #${prInfo.number}.`);
             }
@@ -513,12 +1638,43 @@ export async function pollForUpdates() {
         } catch (error) {
             console.error(`Error polling timeline for PR #${activeWebview.prInfo.number}:`, error);
         }
+
+        // Check CI state too, so the panel updates when checks finish
+        try {
+            const prInfo = activeWebview.prInfo;
+            const newChecks = await fetchPrChecks(octokit, prInfo);
+            if (JSON.stringify(newChecks) !== JSON.stringify(activeWebview.currentChecks)) {
+                console.log(`Checks changed for PR #${prInfo.number}. Notifying webview.`);
+                activeWebview.currentChecks = newChecks;
+                activeWebview.panel.webview.postMessage({ command: 'updateChecks', data: newChecks });
+                hasAnyChange = true;
+                // Finished checks can change mergeability (e.g. no longer blocked)
+                await fetchAndUpdateMergeStatus(octokit, prInfo, activeWebview.panel.webview);
+            }
+        } catch (error) {
+            console.error(`Error polling checks for PR #${activeWebview.prInfo.number}:`, error);
+        }
+
+        scheduleNextPoll(activeWebview, hasAnyChange);
     });
 
-    await Promise.all(updateChecks);
+    try {
+        await Promise.all(updateChecks);
+    } finally {
+        isPolling = false;
+    }
     console.log("Polling cycle finished.");
 }
 
+// Doubles the delay while a PR stays unchanged and stretches it further for hidden panels
+function scheduleNextPoll(activeWebview: ActivePrWebview, hasChanged: boolean) {
+    const delay = hasChanged
+        ? POLLING_INTERVAL_MS
+        : Math.min((activeWebview.pollDelayMs || POLLING_INTERVAL_MS) * 2, MAX_POLL_DELAY_MS);
+    activeWebview.pollDelayMs = delay;
+    activeWebview.nextPollTime = Date.now() + (activeWebview.panel.visible ? delay : Math.max(delay, HIDDEN_POLL_DELAY_MS));
+}
+
 export async function fetchAndUpdateMergeStatus(
     octokit: Octokit, // Pass octokit instance
     prInfo: PullRequestInfo,
@@ -548,7 +1704,7 @@ export async function fetchAndUpdateMergeStatus(
 
 
 // DIFF VIEW LOGIC
-export async function fetchAndShowDiffForFile(context: vscode.ExtensionContext, prInfo: PullRequestInfo, file: ChangedFileFromApi ) {
+export async function fetchAndShowDiffForFile(prInfo: PullRequestInfo, file: ChangedFileFromApi ) {
     const octokit = await getOctokit();
     if (!octokit) { vscode.window.showErrorMessage("Please sign in to GitHub first."); return; };
 
@@ -566,40 +1722,18 @@ export async function fetchAndShowDiffForFile(context: vscode.ExtensionContext,
 
             progress.report({ message: `Processing ${file.filename}...` });
             const filename = file.filename; // Use filename from input 'file'
-
-            // Use file.status from input 'file'
-            if (file.status === 'added') {
-                try {
-                    const { data: contentData } = await octokit.repos.getContent({ owner: prInfo.repoOwner, repo: prInfo.repoName, path: filename, ref: headSha });
-                    const headContent = Buffer.from((contentData as any).content, 'base64').toString('utf8');
-                    const baseUri = await createTempFile(context, `<span class="math-inline">\{prInfo\.number\}\-</span>{baseSha}-EMPTY-${filename}`, '');
-                    const headUri = await createTempFile(context, `<span class="math-inline">\{prInfo\.number\}\-</span>{headSha}-${filename}`, headContent);
-                    const diffTitle = `${filename} (Added in PR #${prInfo.number})`;
-                    vscode.commands.executeCommand('vscode.diff', baseUri, headUri, diffTitle);
-                } catch (err) { handleDiffError(err, filename); }
-
-            } else if (file.status === 'removed') {
-                try {
-                    const { data: contentData } = await octokit.repos.getContent({ owner: prInfo.repoOwner, repo: prInfo.repoName, path: filename, ref: baseSha });
-                    const baseContent = Buffer.from((contentData as any).content, 'base64').toString('utf8');
-                    const baseUri = await createTempFile(context, `<span class="math-inline">\{prInfo\.number\}\-</span>{baseSha}-${filename}`, baseContent);
-                    const headUri = await createTempFile(context, `<span class="math-inline">\{prInfo\.number\}\-</span>{headSha}-REMOVED-${filename}`, '');
-                    const diffTitle = `${filename} (Removed in PR #${prInfo.number})`;
-                    vscode.commands.executeCommand('vscode.diff', baseUri, headUri, diffTitle);
-                } catch (err) { handleDiffError(err, filename); }
-
-            } else { // Modified, renamed etc.
-                try {
-                    const { data: baseContentData } = await octokit.repos.getContent({ owner: prInfo.repoOwner, repo: prInfo.repoName, path: filename, ref: baseSha });
-                    const { data: headContentData } = await octokit.repos.getContent({ owner: prInfo.repoOwner, repo: prInfo.repoName, path: filename, ref: headSha });
-                    const baseContent = Buffer.from((baseContentData as any).content, 'base64').toString('utf8');
-                    const headContent = Buffer.from((headContentData as any).content, 'base64').toString('utf8');
-                    const baseUri = await createTempFile(context, `<span class="math-inline">\{prInfo\.number\}\-</span>{baseSha}-${filename}`, baseContent);
-                    const headUri = await createTempFile(context, `<span class="math-inline">\{prInfo\.number\}\-</span>{headSha}-${filename}`, headContent);
-                    const diffTitle = `${filename} (Changes in PR ${prInfo.number})`;
-                    vscode.commands.executeCommand('vscode.diff', baseUri, headUri, diffTitle);
-                } catch (err) { handleDiffError(err, filename); }
-            }
+            const basePath = file.previous_filename || filename; // Renamed files live under their old path on the base
+
+            // Added files have no base version, removed files no head version
+            const baseUri = toPrContentUri(prInfo.repoOwner, prInfo.repoName, file.status === 'added' ? null : baseSha, basePath);
+            const headUri = toPrContentUri(prInfo.repoOwner, prInfo.repoName, file.status === 'removed' ? null : headSha, filename);
+            const diffTitle = file.status === 'added' ? `${filename} (Added in PR #${prInfo.number})`
+                : file.status === 'removed' ? `${filename} (Removed in PR #${prInfo.number})`
+                : `${filename} (Changes in PR ${prInfo.number})`;
+            try {
+                await openPrContentDiff(baseUri, headUri, diffTitle);
+                await showReviewThreadsForDiff(prInfo, filename, baseUri, headUri, headSha, file.patch);
+            } catch (err) { handleDiffError(err, filename); }
         
          }); 
 
@@ -613,85 +1747,115 @@ export async function fetchAndShowDiffForFile(context: vscode.ExtensionContext,
      }
 }
 
+// Loads both sides through the pr: content provider first, so fetch errors are reported
+// here instead of showing up as an empty editor
+async function openPrContentDiff(baseUri: vscode.Uri, headUri: vscode.Uri, title: string) {
+    await Promise.all([vscode.workspace.openTextDocument(baseUri), vscode.workspace.openTextDocument(headUri)]);
+    await vscode.commands.executeCommand('vscode.diff', baseUri, headUri, title);
+}
+
+// Opens every changed file of the PR in the multi-diff editor, in the same order as the tree
+export async function showAllChangesForPr(prInfo: PullRequestInfo) {
+    const octokit = await getOctokit();
+    if (!octokit) { vscode.window.showErrorMessage("Please sign in to GitHub first."); return; }
+
+    const owner = prInfo.repoOwner;
+    const repo = prInfo.repoName;
+    try {
+        await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Fetching changes for PR #${prInfo.number}...`, cancellable: false }, async () => {
+            const [{ data: pull }, files] = await Promise.all([
+                octokit.pulls.get({ owner, repo, pull_number: prInfo.number }),
+                octokit.paginate(octokit.pulls.listFiles, { owner, repo, pull_number: prInfo.number, per_page: 100 })
+            ]);
+            if (files.length === 0) {
+                vscode.window.showInformationMessage(`PR #${prInfo.number} has no changed files.`);
+                return;
+            }
+
+            // [label, original, modified]; contents are fetched by the pr: provider as each file scrolls into view
+            const resources = files.sort((a, b) => compareTreeOrder(a.filename, b.filename)).map(file => {
+                const headUri = toPrContentUri(owner, repo, file.status === 'removed' ? null : pull.head.sha, file.filename);
+                const baseUri = toPrContentUri(owner, repo, file.status === 'added' ? null : pull.base.sha, file.previous_filename || file.filename);
+                return [headUri, baseUri, headUri];
+            });
+            await vscode.commands.executeCommand('vscode.changes', `Changes in PR #${prInfo.number}: ${prInfo.title}`, resources);
+        });
+    } catch (err: any) {
+        console.error(`Failed to show all changes for PR #${prInfo.number}:`, err);
+        vscode.window.showErrorMessage(`Failed to show changes for PR #${prInfo.number}: ${err.message || 'Unknown error'}`);
+    }
+}
+
+async function fetchCommitFiles(octokit: Octokit, prInfo: PullRequestInfo, sha: string): Promise<CommitFilesData> {
+    const { data: commitData } = await octokit.repos.getCommit({
+        owner: prInfo.repoOwner,
+        repo: prInfo.repoName,
+        ref: sha,
+    });
+    return {
+        sha: commitData.sha,
+        parentSha: commitData.parents[0]?.sha || null, // Diff merge commits against their first parent
+        files: (commitData.files || []).map(file => ({
+            filename: file.filename,
+            previousFilename: file.previous_filename,
+            status: file.status,
+            additions: file.additions,
+            deletions: file.deletions,
+        })),
+    };
+}
+
+// Shows what a single PR commit changed in one file, comparing it with its parent commit
+export async function fetchAndShowCommitFileDiff(prInfo: PullRequestInfo, sha: string, parentSha: string | null, file: CommitFileSummary) {
+    const octokit = await getOctokit();
+    if (!octokit) { vscode.window.showErrorMessage("Please sign in to GitHub first."); return; }
+
+    const owner = prInfo.repoOwner;
+    const repo = prInfo.repoName;
+    const filename = file.filename;
+    const basePath = file.previousFilename || filename;
+    const shortSha = sha.substring(0, 7);
+
+    try {
+        await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Fetching diff for ${filename} at ${shortSha}...`, cancellable: false }, async () => {
+            const baseUri = toPrContentUri(owner, repo, file.status === 'added' ? null : parentSha, basePath);
+            const headUri = toPrContentUri(owner, repo, file.status === 'removed' ? null : sha, filename);
+            const diffTitle = `${filename} (${shortSha} in PR #${prInfo.number})`;
+            await openPrContentDiff(baseUri, headUri, diffTitle);
+        });
+    } catch (err) {
+        handleDiffError(err, filename);
+    }
+}
+
 export async function showDiffBetweenBranches(
-    context: vscode.ExtensionContext, 
     owner: string,
     repo: string,
     baseBranch: string,
     headBranch: string,
     filename: string,
-    status: ChangedFile['status'] // Receive status from webview
+    status: ChangedFile['status'], // Receive status from webview
+    previousFilename?: string // Base side path of renamed files
 ) { 
-    console.log(`Showing diff for ${filename} between <span class="math-inline">\{baseBranch\}\.\.\.</span>{headBranch}`);
+    console.log(`Showing diff for ${filename} between ${baseBranch}...${headBranch}`);
     const octokit = await getOctokit();
     if (!octokit) { vscode.window.showErrorMessage("Please sign in to GitHub first."); return; }
 
-    try {
-        await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Workspaceing Diff for ${filename}...`, cancellable: false }, async (progress) => {
-
-            let baseContent = '';
-            let headContent = '';
-            let diffTitle = `<span class="math-inline">\{filename\} \(</span>{baseBranch}...${headBranch})`;
-            let baseUri: vscode.Uri | undefined;
-            let headUri: vscode.Uri | undefined;
-
-            progress.report({ message: `Workspaceing base content (${baseBranch})...` });
-            // Fetch base content unless file was added
-            if (status !== 'A') { // Changed 'added' to 'A'
-                try {
-                    const { data: baseData } = await octokit.repos.getContent({ owner, repo, path: filename, ref: baseBranch });
-                    baseContent = Buffer.from((baseData as any).content, 'base64').toString('utf8');
-                } catch (err: any) {
-                     // If file not found on base, treat as added 
-                    if (err.status === 404) {
-                        console.warn(`File ${filename} not found on base branch ${baseBranch}, treating as added.`);
-                        status = 'A'; // Adjust status based on fetch result
-                    } else {
-                        throw err; // Re-throw other errors
-                    }
-                }
-            }
-
-            progress.report({ message: `Workspaceing head content (${headBranch})...` });
-             // Fetch head content unless file was removed
-             if (status !== 'D') { // Changed 'removed' to 'D'
-                try {
-                     const { data: headData } = await octokit.repos.getContent({ owner, repo, path: filename, ref: headBranch });
-                     headContent = Buffer.from((headData as any).content, 'base64').toString('utf8');
-                } catch (err: any) {
-                     // If file not found on head, treat as removed
-                     if (err.status === 404) {
-                         console.warn(`File ${filename} not found on head branch ${headBranch}, treating as removed.`);
-                         status = 'D'; // Adjust status based on fetch result
-                     } else {
-                         throw err; // Re-throw other errors
-                     }
-                }
-             }
-
-
-            // Create Temp Files based on adjusted status
-             progress.report({ message: `Creating temp files...` });
-            if (status === 'A') { // Added
-                baseUri = await createTempFile(context, `<span class="math-inline">\{uniquePrefix\}\-EMPTY\-</span>{filename}`, ''); // Empty base
-                headUri = await createTempFile(context, `<span class="math-inline">\{uniquePrefix\}\-</span>{headBranch}-${filename}`, headContent);
-                diffTitle = `${filename} (Added in ${headBranch} vs ${baseBranch})`;
-            } else if (status === 'D') { // Removed
-                baseUri = await createTempFile(context, `<span class="math-inline">\{uniquePrefix\}\-</span>{baseBranch}-${filename}`, baseContent);
-                headUri = await createTempFile(context, `<span class="math-inline">\{uniquePrefix\}\-EMPTY\-</span>{filename}`, ''); // Empty head
-                diffTitle = `${filename} (Removed in ${headBranch} vs ${baseBranch})`;
-            } else { // Modified, Renamed, Copied
-                 baseUri = await createTempFile(context, `<span class="math-inline">\{uniquePrefix\}\-</span>{baseBranch}-${filename}`, baseContent);
-                 headUri = await createTempFile(context, `<span class="math-inline">\{uniquePrefix\}\-</span>{headBranch}-${filename}`, headContent);
-                 diffTitle = `${filename} (Modified in ${headBranch} vs ${baseBranch})`;
-            }
+    // Missing files come back empty from the content provider, so only the title depends on status
+    let diffTitle: string;
+    if (status === 'A') { // Added
+        diffTitle = `${filename} (Added in ${headBranch} vs ${baseBranch})`;
+    } else if (status === 'D') { // Removed
+        diffTitle = `${filename} (Removed in ${headBranch} vs ${baseBranch})`;
+    } else { // Modified, Renamed, Copied
+        diffTitle = `${filename} (Modified in ${headBranch} vs ${baseBranch})`;
+    }
 
-            // Show diff
-            if (baseUri && headUri) {
-                vscode.commands.executeCommand('vscode.diff', baseUri, headUri, diffTitle);
-            } else {
-                 throw new Error("Could not create URIs for diff view.");
-            }
+    try {
+        await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Fetching Diff for ${filename}...`, cancellable: false }, async () => {
+            const baseUri = toPrContentUri(owner, repo, status === 'A' ? null : baseBranch, previousFilename ?? filename);
+            const headUri = toPrContentUri(owner, repo, status === 'D' ? null : headBranch, filename);
+            await openPrContentDiff(baseUri, headUri, diffTitle);
         });
     } catch (err) {
          console.error(`Error showing diff between branches for ${filename}:`, err);
@@ -747,7 +1911,13 @@ export async function getWebviewTimelineHtml(
     </head>
     <body>
         <div class="title-bar">
-            <h1><a href="${prInfo.url}" target="_blank">#${prInfo.number}: ${escapeHtml(prInfo.title)}</a></h1>
+            <h1 id="pr-title"><a id="pr-title-link" href="${prInfo.url}" target="_blank">#${prInfo.number}: ${escapeHtml(prInfo.title)}</a></h1>
+            <button id="edit-title-button" class="button icon-button" title="Edit Title">
+                    <span class="codicon codicon-edit"></span>
+            </button>
+            <button id="view-all-changes-button" class="button icon-button" title="View All Changes">
+                    <span class="codicon codicon-diff-multiple"></span>
+            </button>
             <button id="refresh-button" class="button icon-button" title="Refresh PR Details">
                     <span class="codicon codicon-refresh"></span>
             </button>
@@ -759,49 +1929,117 @@ export async function getWebviewTimelineHtml(
 
         <hr class="status-timeline-separator">
 
-        <div id="pr-status-area" class="pr-status-area">
-            <div id="merge-status" class="status-section loading">Loading merge status...</div>
-
-            <div class="merge-controls"> 
-                 <div class="form-group"> 
-                    <label for="merge-method-select">Merge Method:</label>
-                    <select id="merge-method-select" name="merge-method-select">
-                        <option value="merge">Create a merge commit</option>
-                        <option value="squash">Squash and merge</option>
-                        <option value="rebase">Rebase and merge</option>
-                    </select>
-                 </div>
-                 <button id="confirm-merge-button" class="button merge-button" disabled> 
-                    <span class="codicon codicon-git-merge"></span> Merge pull request
-                 </button>
+        <div class="pr-layout">
+            <div class="pr-main">
+                <div id="pr-status-area" class="pr-status-area">
+                    <div id="merge-status" class="status-section loading">Loading merge status...</div>
+
+                <div id="checks-status" class="checks-section"></div>
+
+                    <div class="merge-controls"> 
+                         <div class="form-group"> 
+                            <label for="merge-method-select">Merge Method:</label>
+                            <select id="merge-method-select" name="merge-method-select">
+                                <option value="merge">Create a merge commit</option>
+                                <option value="squash">Squash and merge</option>
+                                <option value="rebase">Rebase and merge</option>
+                            </select>
+                         </div>
+                         <button id="confirm-merge-button" class="button merge-button" disabled> 
+                            <span class="codicon codicon-git-merge"></span> Merge pull request
+                         </button>
+                         <button id="enable-auto-merge-button" class="button secondary-button" style="display: none;" title="Merge automatically once all requirements are met">
+                            <span class="codicon codicon-clock"></span> Enable auto-merge
+                         </button>
+                    </div>
+
+                    <div id="merge-commit-area" class="merge-commit-area">
+                         <input type="text" id="merge-commit-title" placeholder="Commit title">
+                         <textarea id="merge-commit-message" placeholder="Commit message (optional)"></textarea>
+                    </div>
+                    <label class="delete-branch-option">
+                         <input type="checkbox" id="delete-branch-checkbox"> Delete branch after merge
+                    </label>
+
+                    <div id="auto-merge-status" class="auto-merge-status" style="display: none;"></div>
+
+                    <div id="update-branch-controls" class="update-branch-controls" style="display: none;">
+                         <span id="behind-by-text"></span>
+                         <select id="update-branch-method" name="update-branch-method">
+                             <option value="merge">Update with merge commit</option>
+                             <option value="rebase">Update with rebase</option>
+                         </select>
+                         <button id="update-branch-button" class="button secondary-button">
+                            <span class="codicon codicon-repo-sync"></span> Update branch
+                         </button>
+                    </div>
+
+                    <div class="draft-controls">
+                         <button id="ready-for-review-button" class="button primary-button" style="display: none;">
+                              <span class="codicon codicon-eye"></span> Ready for review
+                         </button>
+                         <button id="convert-to-draft-button" class="button secondary-button" style="display: none;">
+                              <span class="codicon codicon-git-pull-request-draft"></span> Convert to draft
+                         </button>
+                    </div>
+
+                </div>
+
+                <hr class="status-timeline-separator">
+
+                <div id="pr-description-area" class="pr-description-area">
+                     Loading description...
+                </div>
+
+                <hr class="status-timeline-separator">
+
+                <div id="timeline-area">
+                    <p id="loading-indicator">Loading timeline...</p>
+                </div>
+
+                <div id="comment-box-area" class="comment-box-area">
+                     <hr>
+                     <h3>Add a comment</h3>
+                     <textarea id="new-comment-text" placeholder="Add your comment here..."></textarea>
+                     <div class="comment-box-actions">
+                         <button id="close-button" class="button secondary-button">
+                              <span class="codicon codicon-git-pull-request-closed"></span> Close Pull Request
+                         </button>
+                         <button id="reopen-button" class="button secondary-button" style="display: none;">
+                              <span class="codicon codicon-issue-reopened"></span> Reopen Pull Request
+                         </button>
+                         <button id="add-comment-button" class="button primary-button">
+                              <span class="codicon codicon-comment"></span> Comment
+                         </button>
+                    </div>
+                </div>
+
+                <div id="review-box-area" class="review-box-area">
+                     <hr>
+                     <h3>Submit a review</h3>
+                     <textarea id="review-body-text" placeholder="Leave a review summary..."></textarea>
+                     <div class="review-box-actions">
+                         <button id="start-review-button" class="button secondary-button" title="Collect inline comments as drafts and submit them together">
+                              <span class="codicon codicon-play"></span> Start review
+                         </button>
+                         <button id="discard-review-button" class="button secondary-button" style="display: none;">
+                              <span class="codicon codicon-discard"></span> Discard review
+                         </button>
+                         <div class="review-event-options">
+                             <label><input type="radio" name="review-event" value="COMMENT" checked> Comment</label>
+                             <label><input type="radio" name="review-event" value="APPROVE"> Approve</label>
+                             <label><input type="radio" name="review-event" value="REQUEST_CHANGES"> Request changes</label>
+                         </div>
+                         <button id="submit-review-button" class="button primary-button">
+                              <span class="codicon codicon-check-all"></span> Submit review
+                         </button>
+                     </div>
+                </div>
             </div>
 
-        </div>
-
-        <hr class="status-timeline-separator">
-
-        <div id="pr-description-area" class="pr-description-area">
-             Loading description...
-        </div>
-
-        <hr class="status-timeline-separator">
-
-        <div id="timeline-area">
-            <p id="loading-indicator">Loading timeline...</p>
-        </div>
-
-        <div id="comment-box-area" class="comment-box-area">
-             <hr>
-             <h3>Add a comment</h3>
-             <textarea id="new-comment-text" placeholder="Add your comment here..."></textarea>
-             <div class="comment-box-actions">
-                 <button id="close-button" class="button secondary-button">
-                      <span class="codicon codicon-git-pull-request-closed"></span> Close Pull Request
-                 </button>
-                 <button id="add-comment-button" class="button primary-button">
-                      <span class="codicon codicon-comment"></span> Comment
-                 </button>
-            </div>
+            <aside id="pr-sidebar" class="pr-sidebar">
+                 Loading...
+            </aside>
         </div>
 
         <script nonce="${nonce}" src="${scriptUri}"></script>
@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import { Octokit } from '@octokit/rest';
+import type { Endpoints } from "@octokit/types";
+import type { PullRequestInfo } from './prDataProvider';
+
+type PullRequestData = Endpoints["GET /repos/{owner}/{repo}/pulls/{pull_number}"]["response"]["data"];
+type PullRequestReview = Endpoints["GET /repos/{owner}/{repo}/pulls/{pull_number}/reviews"]["response"]["data"][number];
+
+export type PrMetadataField = 'reviewers' | 'assignees' | 'labels' | 'milestone';
+
+// REQUESTED while a review is awaited, otherwise the state of the reviewer's latest review
+export type ReviewerState = 'REQUESTED' | 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED';
+
+// Data shown in the PR detail sidebar
+export interface PrSidebarData {
+    reviewers: { login: string; avatarUrl?: string | null; state: ReviewerState }[];
+    requestedTeams: { slug: string; name: string }[];
+    assignees: { login: string; avatarUrl?: string | null }[];
+    labels: { name: string; color: string; description?: string | null }[];
+    milestone: { number: number; title: string } | null;
+}
+
+interface UserQuickPickItem extends vscode.QuickPickItem {
+    value: string; // Login, team slug (prefixed with 'team:') or label name
+}
+
+interface MilestoneQuickPickItem extends vscode.QuickPickItem {
+    milestoneNumber: number | null; // null clears the milestone
+}
+
+// GitHub drops reviewers from requested_reviewers once they submit a review, so the
+// reviews are needed to keep showing them
+export async function fetchPrSidebarData(octokit: Octokit, prInfo: PullRequestInfo, pullData: PullRequestData): Promise<PrSidebarData> {
+    const reviews = await octokit.paginate(octokit.pulls.listReviews, { owner: prInfo.repoOwner, repo: prInfo.repoName, pull_number: prInfo.number, per_page: 100 });
+    return buildPrSidebarData(pullData, reviews);
+}
+
+function buildPrSidebarData(pullData: PullRequestData, reviews: PullRequestReview[]): PrSidebarData {
+    const reviewers = new Map<string, PrSidebarData['reviewers'][number]>();
+    // Reviews are listed oldest first. A later comment does not replace an approval or change request, like on GitHub.
+    reviews.forEach(review => {
+        const login = review.user?.login;
+        const state = review.state as ReviewerState;
+        if (!login || login === pullData.user?.login || !['APPROVED', 'CHANGES_REQUESTED', 'COMMENTED', 'DISMISSED'].includes(state)) {
+            return;
+        }
+        const previous = reviewers.get(login);
+        if (state === 'COMMENTED' && (previous?.state === 'APPROVED' || previous?.state === 'CHANGES_REQUESTED')) {
+            return;
+        }
+        reviewers.set(login, { login, avatarUrl: review.user?.avatar_url, state });
+    });
+    // Re-requested reviewers are awaited again, whatever they reviewed before
+    (pullData.requested_reviewers || []).forEach(user => {
+        reviewers.set(user.login, { login: user.login, avatarUrl: user.avatar_url, state: 'REQUESTED' });
+    });
+
+    return {
+        reviewers: [...reviewers.values()],
+        requestedTeams: (pullData.requested_teams || []).map(team => ({ slug: team.slug, name: team.name })),
+        assignees: (pullData.assignees || []).map(user => ({ login: user.login, avatarUrl: user.avatar_url })),
+        labels: (pullData.labels || []).map(label => ({ name: label.name || '', color: label.color || '', description: label.description })),
+        milestone: pullData.milestone ? { number: pullData.milestone.number, title: pullData.milestone.title } : null,
+    };
+}
+
+// Shows a quick pick for the given field and applies the additions/removals.
+// Returns the refreshed sidebar data, or undefined if nothing changed.
+export async function editPrMetadata(octokit: Octokit, prInfo: PullRequestInfo, field: PrMetadataField): Promise<PrSidebarData | undefined> {
+    const owner = prInfo.repoOwner;
+    const repo = prInfo.repoName;
+    const pull_number = prInfo.number;
+
+    const { data: pullData } = await octokit.pulls.get({ owner, repo, pull_number });
+    const current = buildPrSidebarData(pullData, []); // Only requested reviewers can be changed, reviews are not needed
+
+    switch (field) {
+        case 'reviewers': {
+            const collaborators = await octokit.paginate(octokit.repos.listCollaborators, { owner, repo, per_page: 100 });
+            const selectedLogins = new Set(current.reviewers.map(r => r.login));
+            const items: UserQuickPickItem[] = [
+                ...current.requestedTeams.map(team => ({ label: `$(organization) ${team.name}`, description: 'team', value: `team:${team.slug}`, picked: true })),
+                ...collaborators
+                    .filter(user => user.login !== pullData.user?.login) // Authors cannot review their own PR
+                    .map(user => ({ label: user.login, value: user.login, picked: selectedLogins.has(user.login) })),
+            ];
+            const picked = await showMultiPick(items, 'Select reviewers');
+            if (!picked) { return undefined; }
+
+            const pickedLogins = picked.filter(v => !v.startsWith('team:'));
+            const pickedTeams = picked.filter(v => v.startsWith('team:')).map(v => v.substring('team:'.length));
+            const addReviewers = pickedLogins.filter(login => !selectedLogins.has(login));
+            const removeReviewers = [...selectedLogins].filter(login => !pickedLogins.includes(login));
+            const removeTeams = current.requestedTeams.map(t => t.slug).filter(slug => !pickedTeams.includes(slug));
+
+            if (addReviewers.length > 0) {
+                await octokit.pulls.requestReviewers({ owner, repo, pull_number, reviewers: addReviewers });
+            }
+            if (removeReviewers.length > 0 || removeTeams.length > 0) {
+                await octokit.pulls.removeRequestedReviewers({ owner, repo, pull_number, reviewers: removeReviewers, team_reviewers: removeTeams });
+            }
+            break;
+        }
+
+        case 'assignees': {
+            const candidates = await octokit.paginate(octokit.issues.listAssignees, { owner, repo, per_page: 100 });
+            const selectedLogins = new Set(current.assignees.map(a => a.login));
+            const items: UserQuickPickItem[] = candidates.map(user => ({ label: user.login, value: user.login, picked: selectedLogins.has(user.login) }));
+            const picked = await showMultiPick(items, 'Select assignees');
+            if (!picked) { return undefined; }
+
+            const addAssignees = picked.filter(login => !selectedLogins.has(login));
+            const removeAssignees = [...selectedLogins].filter(login => !picked.includes(login));
+            if (addAssignees.length > 0) {
+                await octokit.issues.addAssignees({ owner, repo, issue_number: pull_number, assignees: addAssignees });
+            }
+            if (removeAssignees.length > 0) {
+                await octokit.issues.removeAssignees({ owner, repo, issue_number: pull_number, assignees: removeAssignees });
+            }
+            break;
+        }
+
+        case 'labels': {
+            const repoLabels = await octokit.paginate(octokit.issues.listLabelsForRepo, { owner, repo, per_page: 100 });
+            const selectedNames = new Set(current.labels.map(l => l.name));
+            const items: UserQuickPickItem[] = repoLabels.map(label => ({
+                label: label.name,
+                description: label.description || undefined,
+                value: label.name,
+                picked: selectedNames.has(label.name),
+            }));
+            const picked = await showMultiPick(items, 'Select labels');
+            if (!picked) { return undefined; }
+
+            const addLabels = picked.filter(name => !selectedNames.has(name));
+            const removeLabels = [...selectedNames].filter(name => !picked.includes(name));
+            if (addLabels.length > 0) {
+                await octokit.issues.addLabels({ owner, repo, issue_number: pull_number, labels: addLabels });
+            }
+            // Labels can only be removed one at a time
+            for (const name of removeLabels) {
+                await octokit.issues.removeLabel({ owner, repo, issue_number: pull_number, name });
+            }
+            break;
+        }
+
+        case 'milestone': {
+            const milestones = await octokit.paginate(octokit.issues.listMilestones, { owner, repo, state: 'open', per_page: 100 });
+            const items: MilestoneQuickPickItem[] = [
+                { label: '$(close) No milestone', milestoneNumber: null },
+                ...milestones.map(milestone => ({
+                    label: milestone.title,
+                    description: milestone.number === current.milestone?.number ? 'current' : undefined,
+                    detail: milestone.due_on ? `Due ${new Date(milestone.due_on).toLocaleDateString()}` : undefined,
+                    milestoneNumber: milestone.number,
+                })),
+            ];
+            const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select a milestone' });
+            if (!picked || picked.milestoneNumber === (current.milestone?.number ?? null)) { return undefined; }
+
+            await octokit.issues.update({ owner, repo, issue_number: pull_number, milestone: picked.milestoneNumber });
+            break;
+        }
+    }
+
+    const { data: updatedPullData } = await octokit.pulls.get({ owner, repo, pull_number });
+    return fetchPrSidebarData(octokit, prInfo, updatedPullData);
+}
+
+async function showMultiPick(items: UserQuickPickItem[], placeHolder: string): Promise<string[] | undefined> {
+    if (items.length === 0) {
+        vscode.window.showInformationMessage(`No options available to ${placeHolder.toLowerCase()} in this repository.`);
+        return undefined;
+    }
+    const picked = await vscode.window.showQuickPick(items, { placeHolder, canPickMany: true });
+    return picked?.map(item => item.value);
+}
@@ -0,0 +1,74 @@
+import { Octokit } from '@octokit/rest';
+import type { PullRequestInfo } from './prDataProvider';
+
+// GitHub reports DISMISSED for files marked viewed that changed in a later push
+export type FileViewedState = 'VIEWED' | 'UNVIEWED' | 'DISMISSED';
+
+// Viewed state of every file in a PR, shared by all tree items showing that PR
+export interface PrViewedFiles {
+    pullRequestId: string; // Node id used by the mark/unmark mutations
+    states: Map<string, FileViewedState>; // Keyed by file path
+}
+
+interface ViewedFilesResponse {
+    repository: {
+        pullRequest: {
+            id: string;
+            files: {
+                nodes: { path: string; viewerViewedState: FileViewedState }[];
+                pageInfo: { hasNextPage: boolean; endCursor: string | null };
+            } | null;
+        } | null;
+    } | null;
+}
+
+export async function fetchViewedFiles(octokit: Octokit, prInfo: PullRequestInfo): Promise<PrViewedFiles> {
+    const states = new Map<string, FileViewedState>();
+    let pullRequestId = '';
+    let cursor: string | null = null;
+
+    // files() is capped at 100 per page, large PRs need several round trips
+    do {
+        const result: ViewedFilesResponse = await octokit.graphql<ViewedFilesResponse>(`
+            query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+                repository(owner: $owner, name: $repo) {
+                    pullRequest(number: $number) {
+                        id
+                        files(first: 100, after: $cursor) {
+                            nodes { path viewerViewedState }
+                            pageInfo { hasNextPage endCursor }
+                        }
+                    }
+                }
+            }`, { owner: prInfo.repoOwner, repo: prInfo.repoName, number: prInfo.number, cursor });
+
+        const pullRequest = result?.repository?.pullRequest;
+        pullRequestId = pullRequest?.id || pullRequestId;
+        (pullRequest?.files?.nodes || []).forEach(file => {
+            states.set(file.path, file.viewerViewedState);
+        });
+        cursor = pullRequest?.files?.pageInfo.hasNextPage ? pullRequest.files.pageInfo.endCursor : null;
+    } while (cursor);
+
+    return { pullRequestId, states };
+}
+
+export async function setFileViewed(octokit: Octokit, viewedFiles: PrViewedFiles, path: string, viewed: boolean) {
+    const mutation = viewed
+        ? `mutation($pullRequestId: ID!, $path: String!) { markFileAsViewed(input: { pullRequestId: $pullRequestId, path: $path }) { clientMutationId } }`
+        : `mutation($pullRequestId: ID!, $path: String!) { unmarkFileAsViewed(input: { pullRequestId: $pullRequestId, path: $path }) { clientMutationId } }`;
+    await octokit.graphql(mutation, { pullRequestId: viewedFiles.pullRequestId, path });
+    viewedFiles.states.set(path, viewed ? 'VIEWED' : 'UNVIEWED');
+}
+
+// First file after `afterPath` (wrapping around) that is not marked viewed
+export function findNextUnviewedFile(paths: string[], viewedFiles: PrViewedFiles, afterPath?: string): string | undefined {
+    const start = afterPath ? paths.indexOf(afterPath) + 1 : 0;
+    for (let i = 0; i < paths.length; i++) {
+        const path = paths[(start + i) % paths.length];
+        if (viewedFiles.states.get(path) !== 'VIEWED') {
+            return path;
+        }
+    }
+    return undefined;
+}
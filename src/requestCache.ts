@@ -0,0 +1,83 @@
+import type { Octokit } from '@octokit/rest';
+
+// Last successful response for a GET url, replayed when GitHub answers 304 Not Modified
+interface CachedResponse {
+    etag?: string;
+    lastModified?: string;
+    response: any;
+}
+
+const MAX_CACHE_ENTRIES = 500;
+
+// Only the lists and pull request data that are polled, where 304s save the most. File
+// contents, blobs and diffs are large and rarely requested twice, so they are never kept.
+const CACHEABLE_PATH = /^\/(search\/issues|repos\/[^/]+\/[^/]+\/((pulls|issues)(\/\d+(\/(reviews|comments|commits|files|timeline))?)?|commits\/[^/]+\/(check-runs|status)))$/;
+
+function isCacheable(url: string, accept: string | undefined): boolean {
+    // Non-JSON media types are raw diffs and patches
+    return CACHEABLE_PATH.test(new URL(url).pathname) && (!accept || accept.endsWith('json'));
+}
+
+// Shared by every Octokit instance so polling keeps its validators between getOctokit() calls
+const responseCache = new Map<string, CachedResponse>();
+let cachedToken: string | undefined;
+
+// Responses replayed from the cache, so callers can tell nothing changed since the last request
+const replayedResponses = new WeakSet<object>();
+
+export function isReplayedResponse(response: object): boolean {
+    return replayedResponses.has(response);
+}
+
+// Sends If-None-Match / If-Modified-Since on GET requests. Conditional requests that
+// return 304 do not count against the rate limit, so unchanged lists cost nothing.
+export function enableConditionalRequests(octokit: Octokit, accessToken: string) {
+    // Never replay one account's responses to another
+    if (cachedToken !== accessToken) {
+        responseCache.clear();
+        cachedToken = accessToken;
+    }
+
+    octokit.hook.wrap('request', async (request, options) => {
+        if (options.method !== 'GET') {
+            return request(options);
+        }
+
+        const { url, headers } = octokit.request.endpoint.parse(options);
+        if (!isCacheable(url, headers.accept)) {
+            return request(options);
+        }
+
+        // The same URL returns a different body per media type (previews)
+        const cacheKey = `${headers.accept || ''} ${url}`;
+        const cached = responseCache.get(cacheKey);
+        if (cached) {
+            options.headers = {
+                ...options.headers,
+                ...(cached.etag ? { 'if-none-match': cached.etag } : {}),
+                ...(cached.lastModified ? { 'if-modified-since': cached.lastModified } : {}),
+            };
+        }
+
+        try {
+            const response = await request(options);
+            const etag = response.headers.etag;
+            const lastModified = response.headers['last-modified'];
+            if (etag || lastModified) {
+                responseCache.delete(cacheKey); // Re-insert so the entry becomes the most recent
+                responseCache.set(cacheKey, { etag, lastModified, response });
+                if (responseCache.size > MAX_CACHE_ENTRIES) {
+                    responseCache.delete(responseCache.keys().next().value as string);
+                }
+            }
+            return response;
+        } catch (error: any) {
+            if (error?.status === 304 && cached) {
+                const replayed = { ...cached.response };
+                replayedResponses.add(replayed);
+                return replayed;
+            }
+            throw error;
+        }
+    });
+}
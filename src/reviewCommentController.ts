@@ -0,0 +1,311 @@
+import * as vscode from 'vscode';
+import { getOctokit } from './auth';
+import type { Endpoints } from "@octokit/types";
+import type { PullRequestInfo } from './prDataProvider';
+import { getPendingReview, addDraftComment, removeDraftComment, onDidChangePendingReview, DraftReviewComment } from './pendingReviewStore';
+
+type ReviewComment = Endpoints["GET /repos/{owner}/{repo}/pulls/{pull_number}/comments"]["response"]["data"][0];
+type DiffSide = 'LEFT' | 'RIGHT';
+
+// Which PR / file / side of the diff a document belongs to
+interface DiffDocumentInfo {
+    prInfo: PullRequestInfo;
+    path: string;
+    side: DiffSide;
+    headSha: string;
+    hunkRanges: vscode.Range[]; // GitHub only accepts comments on lines inside the diff hunks
+}
+
+// Extra state we keep per thread so replies can be posted
+interface ReviewThreadInfo {
+    document: DiffDocumentInfo;
+    rootCommentId?: number; // Undefined until the first comment of a new thread is posted
+    isDraft?: boolean; // Thread only holds a comment from the pending review
+}
+
+const CONTROLLER_ID = 'yourPrReviewComments';
+
+let commentController: vscode.CommentController | undefined;
+let extensionContext: vscode.ExtensionContext | undefined;
+const diffDocuments = new Map<string, DiffDocumentInfo>(); // Keyed by document URI string
+const reviewThreads = new Map<vscode.CommentThread, ReviewThreadInfo>();
+
+// A single GitHub review comment shown inside a thread
+class ReviewThreadComment implements vscode.Comment {
+    public body: vscode.MarkdownString;
+    public mode = vscode.CommentMode.Preview;
+    public author: vscode.CommentAuthorInformation;
+    public timestamp?: Date;
+    public label?: string;
+    public contextValue?: string; // 'draftReviewComment' enables the delete action
+    public draftId?: string;
+
+    constructor(public readonly githubId: number | undefined, body: string, login: string, avatarUrl?: string | null, createdAt?: string, label?: string) {
+        this.body = new vscode.MarkdownString(body);
+        this.author = { name: login, iconPath: avatarUrl ? vscode.Uri.parse(avatarUrl) : undefined };
+        this.timestamp = createdAt ? new Date(createdAt) : undefined;
+        this.label = label;
+    }
+
+    static fromApi(comment: ReviewComment): ReviewThreadComment {
+        return new ReviewThreadComment(
+            comment.id,
+            comment.body,
+            comment.user?.login || 'unknown',
+            comment.user?.avatar_url,
+            comment.created_at,
+            (comment.line === null || comment.line === undefined) ? 'Outdated' : undefined // No current line means the comment is outdated
+        );
+    }
+
+    static fromDraft(draft: DraftReviewComment): ReviewThreadComment {
+        const comment = new ReviewThreadComment(undefined, draft.body, 'You', undefined, draft.createdAt, 'Pending');
+        comment.contextValue = 'draftReviewComment';
+        comment.draftId = draft.id;
+        return comment;
+    }
+}
+
+// REGISTRATION
+export function registerReviewCommentController(context: vscode.ExtensionContext) {
+    extensionContext = context;
+    commentController = vscode.comments.createCommentController(CONTROLLER_ID, 'GitHub Pull Request Review');
+    commentController.commentingRangeProvider = {
+        provideCommentingRanges: (document: vscode.TextDocument) => {
+            // Only PR diff documents we opened can be commented on
+            return diffDocuments.get(document.uri.toString())?.hunkRanges || [];
+        }
+    };
+    context.subscriptions.push(commentController);
+
+    context.subscriptions.push(vscode.commands.registerCommand('yourExtension.createReviewComment', (reply: vscode.CommentReply) => postReviewComment(reply)));
+    context.subscriptions.push(vscode.commands.registerCommand('yourExtension.replyReviewComment', (reply: vscode.CommentReply) => postReviewComment(reply)));
+    context.subscriptions.push(vscode.commands.registerCommand('yourExtension.deleteDraftReviewComment', (comment: ReviewThreadComment) => deleteDraftComment(comment)));
+
+    // Remove draft threads once their pending review is submitted or discarded
+    context.subscriptions.push(onDidChangePendingReview(prInfo => {
+        if (getPendingReview(context, prInfo)) { return; }
+        for (const [thread, threadInfo] of reviewThreads) {
+            if (threadInfo.isDraft && threadInfo.document.prInfo.number === prInfo.number) {
+                thread.dispose();
+                reviewThreads.delete(thread);
+            }
+        }
+    }));
+}
+
+// Called after a PR file diff is opened so existing review threads are shown on it
+export async function showReviewThreadsForDiff(
+    prInfo: PullRequestInfo,
+    path: string,
+    baseUri: vscode.Uri,
+    headUri: vscode.Uri,
+    headSha: string,
+    patch: string | undefined // Missing for binary files and very large diffs
+) {
+    if (!commentController) {
+        console.warn("Review comment controller not registered, skipping review threads.");
+        return;
+    }
+
+    const baseDocument: DiffDocumentInfo = { prInfo, path, side: 'LEFT', headSha, hunkRanges: parseHunkRanges(patch, 'LEFT') };
+    const headDocument: DiffDocumentInfo = { prInfo, path, side: 'RIGHT', headSha, hunkRanges: parseHunkRanges(patch, 'RIGHT') };
+    diffDocuments.set(baseUri.toString(), baseDocument);
+    diffDocuments.set(headUri.toString(), headDocument);
+
+    // Drop threads from a previous opening of the same diff
+    clearThreadsForUris([baseUri.toString(), headUri.toString()]);
+
+    const octokit = await getOctokit();
+    if (!octokit) { return; }
+
+    try {
+        const reviewComments = await octokit.paginate(octokit.pulls.listReviewComments, {
+            owner: prInfo.repoOwner,
+            repo: prInfo.repoName,
+            pull_number: prInfo.number,
+            per_page: 100
+        });
+
+        // Group comments into threads using the first comment as the root
+        const commentsByRootId = new Map<number, ReviewComment[]>();
+        reviewComments
+            .filter(comment => comment.path === path)
+            .forEach(comment => {
+                const rootId = comment.in_reply_to_id || comment.id;
+                const comments = commentsByRootId.get(rootId) || [];
+                comments.push(comment);
+                commentsByRootId.set(rootId, comments);
+            });
+
+        let outdatedCount = 0;
+        commentsByRootId.forEach((comments, rootId) => {
+            const root = comments.find(c => c.id === rootId) || comments[0];
+            if (root.line === null || root.line === undefined) {
+                // Outdated: the original line number may now hold unrelated code, the timeline still shows these
+                outdatedCount++;
+                return;
+            }
+            const endLine = root.line;
+            const startLine = root.start_line ?? endLine;
+
+            const isBaseSide = root.side === 'LEFT';
+            const uri = isBaseSide ? baseUri : headUri;
+            const range = new vscode.Range(startLine - 1, 0, endLine - 1, 0);
+
+            const thread = commentController!.createCommentThread(uri, range, comments.map(ReviewThreadComment.fromApi));
+            thread.canReply = true;
+            thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+            reviewThreads.set(thread, { document: isBaseSide ? baseDocument : headDocument, rootCommentId: root.id });
+        });
+        console.log(`Created ${commentsByRootId.size - outdatedCount} review threads for ${path} in PR #${prInfo.number}, skipped ${outdatedCount} outdated`);
+
+        // Show draft comments from a pending review alongside the published ones
+        const pendingReview = extensionContext ? getPendingReview(extensionContext, prInfo) : undefined;
+        pendingReview?.comments
+            .filter(draft => draft.path === path)
+            .forEach(draft => {
+                const isBaseSide = draft.side === 'LEFT';
+                const range = new vscode.Range((draft.start_line ?? draft.line) - 1, 0, draft.line - 1, 0);
+                const thread = commentController!.createCommentThread(isBaseSide ? baseUri : headUri, range, [ReviewThreadComment.fromDraft(draft)]);
+                thread.canReply = false;
+                reviewThreads.set(thread, { document: isBaseSide ? baseDocument : headDocument, isDraft: true });
+            });
+
+    } catch (error) {
+        console.error(`Failed to load review comments for ${path} in PR #${prInfo.number}:`, error);
+        vscode.window.showErrorMessage(`Failed to load review comments: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+// Line ranges covered by the hunks of a unified diff patch, on one side of the diff
+export function parseHunkRanges(patch: string | undefined, side: DiffSide): vscode.Range[] {
+    const ranges: vscode.Range[] = [];
+    const hunkHeader = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/gm;
+    let match: RegExpExecArray | null;
+    while (patch && (match = hunkHeader.exec(patch))) {
+        const start = Number(side === 'LEFT' ? match[1] : match[3]);
+        const lengthText = side === 'LEFT' ? match[2] : match[4];
+        const length = lengthText === undefined ? 1 : Number(lengthText);
+        if (length > 0) {
+            ranges.push(new vscode.Range(start - 1, 0, start + length - 2, 0));
+        }
+    }
+    return ranges;
+}
+
+function clearThreadsForUris(uris: string[]) {
+    for (const [thread] of reviewThreads) {
+        if (uris.includes(thread.uri.toString())) {
+            thread.dispose();
+            reviewThreads.delete(thread);
+        }
+    }
+}
+
+// Removes a single draft from the pending review, and its thread once that is empty
+async function deleteDraftComment(comment: ReviewThreadComment) {
+    if (!extensionContext || !comment?.draftId) {
+        return;
+    }
+    for (const [thread, threadInfo] of reviewThreads) {
+        if (!thread.comments.includes(comment)) { continue; }
+        await removeDraftComment(extensionContext, threadInfo.document.prInfo, comment.draftId);
+        thread.comments = thread.comments.filter(c => c !== comment);
+        if (thread.comments.length === 0) {
+            thread.dispose();
+            reviewThreads.delete(thread);
+        }
+        console.log(`Deleted draft comment on ${threadInfo.document.path} from pending review for PR #${threadInfo.document.prInfo.number}`);
+        return;
+    }
+}
+
+// Handles both starting a new thread and replying to an existing one
+async function postReviewComment(reply: vscode.CommentReply) {
+    const thread = reply.thread;
+    const threadInfo = reviewThreads.get(thread);
+    const documentInfo = threadInfo?.document || diffDocuments.get(thread.uri.toString());
+    if (!documentInfo) {
+        vscode.window.showErrorMessage("Comments can only be added to pull request diffs.");
+        return;
+    }
+
+    const octokit = await getOctokit();
+    if (!octokit) {
+        vscode.window.showErrorMessage("Cannot perform action: GitHub authentication required.");
+        return;
+    }
+
+    const { prInfo } = documentInfo;
+    const owner = prInfo.repoOwner;
+    const repo = prInfo.repoName;
+    const pull_number = prInfo.number;
+
+    // While a review is pending, new threads become local drafts instead of being posted
+    const pendingReview = extensionContext ? getPendingReview(extensionContext, prInfo) : undefined;
+    if (pendingReview && extensionContext && !threadInfo?.rootCommentId) {
+        const range = thread.range;
+        const startLine = (range?.start.line ?? 0) + 1;
+        const endLine = (range?.end.line ?? 0) + 1;
+        const draft = await addDraftComment(extensionContext, prInfo, {
+            path: documentInfo.path,
+            body: reply.text,
+            line: endLine,
+            side: documentInfo.side,
+            ...(startLine !== endLine ? { start_line: startLine, start_side: documentInfo.side } : {}),
+        });
+        if (draft) {
+            thread.comments = [...thread.comments, ReviewThreadComment.fromDraft(draft)];
+            thread.canReply = false;
+            reviewThreads.set(thread, { document: documentInfo, isDraft: true });
+            console.log(`Added draft comment on ${documentInfo.path} to pending review for PR #${pull_number}`);
+        }
+        return;
+    }
+
+    try {
+        let created: ReviewComment;
+        if (threadInfo?.rootCommentId) {
+            const response = await octokit.pulls.createReplyForReviewComment({
+                owner,
+                repo,
+                pull_number,
+                comment_id: threadInfo.rootCommentId,
+                body: reply.text,
+            });
+            created = response.data as ReviewComment;
+        } else {
+            const range = thread.range;
+            const startLine = (range?.start.line ?? 0) + 1;
+            const endLine = (range?.end.line ?? 0) + 1;
+            const response = await octokit.pulls.createReviewComment({
+                owner,
+                repo,
+                pull_number,
+                body: reply.text,
+                commit_id: documentInfo.headSha,
+                path: documentInfo.path,
+                line: endLine,
+                side: documentInfo.side,
+                // Multi-line comments need the start position too
+                ...(startLine !== endLine ? { start_line: startLine, start_side: documentInfo.side } : {}),
+            });
+            created = response.data as ReviewComment;
+            reviewThreads.set(thread, { document: documentInfo, rootCommentId: created.id });
+        }
+
+        thread.comments = [...thread.comments, ReviewThreadComment.fromApi(created)];
+        thread.canReply = true;
+        console.log(`Posted review comment ${created.id} on ${documentInfo.path} in PR #${pull_number}`);
+
+    } catch (err: any) {
+        console.error(`Failed to post review comment on PR #${pull_number}:`, err);
+        vscode.window.showErrorMessage(`Failed to post review comment: ${err.message || 'Unknown error'}`);
+        // A new thread whose first comment failed would otherwise stay in the editor empty
+        if (thread.comments.length === 0) {
+            thread.dispose();
+            reviewThreads.delete(thread);
+        }
+    }
+}
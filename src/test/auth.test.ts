@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { getRetryDelay } from '../auth';
+
+function apiError(status: number | undefined, headers: Record<string, string> = {}, message = 'Request failed') {
+	return { status, message, response: { headers } };
+}
+
+suite('Request Retry Test Suite', () => {
+	test('retries transient errors on reads with exponential backoff', () => {
+		const first = getRetryDelay(apiError(502), 'GET', 0);
+		const third = getRetryDelay(apiError(undefined), 'GET', 2); // Network error
+		assert.ok(first !== undefined && first >= 1000 && first < 1500);
+		assert.ok(third !== undefined && third >= 4000 && third < 4500);
+	});
+
+	test('does not repeat writes or client errors', () => {
+		assert.strictEqual(getRetryDelay(apiError(502), 'POST', 0), undefined);
+		assert.strictEqual(getRetryDelay(apiError(404), 'GET', 0), undefined);
+		assert.strictEqual(getRetryDelay(apiError(422), 'PATCH', 0), undefined);
+	});
+
+	test('gives up after the maximum number of retries', () => {
+		assert.strictEqual(getRetryDelay(apiError(503), 'GET', 3), undefined);
+	});
+
+	test('waits for retry-after on secondary rate limits, for any method', () => {
+		assert.strictEqual(getRetryDelay(apiError(403, { 'retry-after': '5' }), 'POST', 0), 5000);
+		assert.strictEqual(getRetryDelay(apiError(429, { 'retry-after': '2' }), 'GET', 0), 2000);
+	});
+
+	test('fails fast when retry-after is longer than the maximum wait', () => {
+		const error = apiError(403, { 'retry-after': '600' });
+		assert.strictEqual(getRetryDelay(error, 'GET', 0), undefined);
+		assert.match(error.message, /secondary rate limit/);
+	});
+
+	test('waits for a primary rate limit reset only when it is soon', () => {
+		const soon = String(Math.floor(Date.now() / 1000) + 10);
+		const later = String(Math.floor(Date.now() / 1000) + 3600);
+		const delay = getRetryDelay(apiError(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': soon }), 'GET', 0);
+		assert.ok(delay !== undefined && delay > 0 && delay <= 12000);
+
+		const error = apiError(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': later });
+		assert.strictEqual(getRetryDelay(error, 'GET', 0), undefined);
+		assert.match(error.message, /rate limit exceeded/);
+	});
+});
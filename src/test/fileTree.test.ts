@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { buildFileTree, compareTreeOrder, formatFileStats } from '../fileTree';
+
+type TestFile = { filename: string; additions?: number; deletions?: number };
+
+function toFiles(...filenames: string[]): TestFile[] {
+	return filenames.map(filename => ({ filename }));
+}
+
+suite('File Tree Test Suite', () => {
+	test('groups files by folder and sums their stats', () => {
+		const files: TestFile[] = [
+			{ filename: 'src/a.ts', additions: 3, deletions: 1 },
+			{ filename: 'src/b.ts', additions: 2, deletions: 0 },
+			{ filename: 'README.md', additions: 1, deletions: 4 },
+		];
+		const root = buildFileTree(files, file => file.filename);
+
+		assert.deepStrictEqual(root.files.map(file => file.filename), ['README.md']);
+		assert.strictEqual(root.folders.length, 1);
+		assert.strictEqual(root.folders[0].path, 'src');
+		assert.deepStrictEqual(root.folders[0].files.map(file => file.filename), ['src/a.ts', 'src/b.ts']);
+		assert.strictEqual(root.folders[0].additions, 5);
+		assert.strictEqual(root.folders[0].deletions, 1);
+		assert.strictEqual(root.additions, 6);
+		assert.strictEqual(root.deletions, 5);
+	});
+
+	test('compresses chains of single-folder folders', () => {
+		const root = buildFileTree(toFiles('src/webview/main.ts', 'src/webview/styles/app.css'), file => file.filename);
+
+		assert.strictEqual(root.folders.length, 1);
+		const webview = root.folders[0];
+		assert.strictEqual(webview.name, 'src/webview');
+		assert.strictEqual(webview.path, 'src/webview');
+		assert.deepStrictEqual(webview.files.map(file => file.filename), ['src/webview/main.ts']);
+		assert.strictEqual(webview.folders[0].name, 'styles'); // Holds a file, so it is not merged into its parent
+	});
+
+	test('keeps a folder that holds files next to a sub-folder', () => {
+		const root = buildFileTree(toFiles('a/b/c.ts', 'a/d.ts'), file => file.filename);
+
+		assert.strictEqual(root.folders[0].name, 'a');
+		assert.strictEqual(root.folders[0].folders[0].name, 'b');
+	});
+
+	test('orders folders before files, then by name', () => {
+		const paths = ['z.ts', 'src/b.ts', 'a.ts', 'src/lib/c.ts', 'src/a.ts', 'docs/x.md'];
+		assert.deepStrictEqual([...paths].sort(compareTreeOrder), ['docs/x.md', 'src/lib/c.ts', 'src/a.ts', 'src/b.ts', 'a.ts', 'z.ts']);
+	});
+
+	test('builds the tree in the same order as compareTreeOrder', () => {
+		const root = buildFileTree(toFiles('b.ts', 'lib/x.ts', 'a.ts', 'app/y.ts'), file => file.filename);
+
+		assert.deepStrictEqual(root.folders.map(folder => folder.name), ['app', 'lib']);
+		assert.deepStrictEqual(root.files.map(file => file.filename), ['a.ts', 'b.ts']);
+	});
+
+	test('formats stats only when they are known', () => {
+		assert.strictEqual(formatFileStats({ additions: 12, deletions: 3 }), '+12 -3');
+		assert.strictEqual(formatFileStats({ additions: 4 }), '+4 -0');
+		assert.strictEqual(formatFileStats({}), '');
+	});
+});
@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { summarizeChecks, PrCheckItem } from '../prChecks';
+
+function check(status: PrCheckItem['status'], conclusion: string | null): PrCheckItem {
+	return { id: `${status}-${conclusion}`, kind: 'check_run', name: 'build', status, conclusion, startedAt: null, completedAt: null, detailsUrl: null, checkSuiteId: null };
+}
+
+suite('PR Checks Test Suite', () => {
+	test('reports none without checks', () => {
+		assert.strictEqual(summarizeChecks([]), 'none');
+	});
+
+	test('reports failure when any check failed, even while others run', () => {
+		assert.strictEqual(summarizeChecks([check('completed', 'success'), check('in_progress', null), check('completed', 'failure')]), 'failure');
+		assert.strictEqual(summarizeChecks([check('completed', 'timed_out')]), 'failure');
+	});
+
+	test('reports pending while a check has not completed', () => {
+		assert.strictEqual(summarizeChecks([check('completed', 'success'), check('queued', null)]), 'pending');
+	});
+
+	test('reports success when every check passed or was skipped', () => {
+		assert.strictEqual(summarizeChecks([check('completed', 'success'), check('completed', 'skipped'), check('completed', 'neutral')]), 'success');
+	});
+});
@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { formatAge } from '../prDecorations';
+
+function minutesAgo(minutes: number): string {
+	return new Date(Date.now() - minutes * 60 * 1000).toISOString();
+}
+
+suite('PR Decorations Test Suite', () => {
+	test('formats ages in the largest whole unit', () => {
+		assert.strictEqual(formatAge(minutesAgo(5)), '5m');
+		assert.strictEqual(formatAge(minutesAgo(3 * 60)), '3h');
+		assert.strictEqual(formatAge(minutesAgo(2 * 24 * 60)), '2d');
+		assert.strictEqual(formatAge(minutesAgo(65 * 24 * 60)), '2mo');
+		assert.strictEqual(formatAge(minutesAgo(400 * 24 * 60)), '1y');
+	});
+
+	test('switches units at their boundaries', () => {
+		assert.strictEqual(formatAge(minutesAgo(59)), '59m');
+		assert.strictEqual(formatAge(minutesAgo(60)), '1h');
+		assert.strictEqual(formatAge(minutesAgo(24 * 60)), '1d');
+		assert.strictEqual(formatAge(minutesAgo(30 * 24 * 60)), '1mo');
+	});
+
+	test('shows dates in the future as 0m', () => {
+		assert.strictEqual(formatAge(minutesAgo(-10)), '0m');
+	});
+});
@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { findNextUnviewedFile, FileViewedState, PrViewedFiles } from '../prViewedFiles';
+
+function viewedFiles(states: Record<string, FileViewedState>): PrViewedFiles {
+	return { pullRequestId: 'PR_node', states: new Map(Object.entries(states)) };
+}
+
+suite('Viewed Files Test Suite', () => {
+	const paths = ['a.ts', 'b.ts', 'c.ts'];
+
+	test('starts at the first unviewed file', () => {
+		assert.strictEqual(findNextUnviewedFile(paths, viewedFiles({ 'a.ts': 'VIEWED', 'b.ts': 'UNVIEWED', 'c.ts': 'UNVIEWED' })), 'b.ts');
+	});
+
+	test('continues after the last opened file and wraps around', () => {
+		const states = viewedFiles({ 'a.ts': 'UNVIEWED', 'b.ts': 'UNVIEWED', 'c.ts': 'VIEWED' });
+		assert.strictEqual(findNextUnviewedFile(paths, states, 'a.ts'), 'b.ts');
+		assert.strictEqual(findNextUnviewedFile(paths, states, 'b.ts'), 'a.ts');
+	});
+
+	test('treats dismissed and unknown files as unviewed', () => {
+		assert.strictEqual(findNextUnviewedFile(paths, viewedFiles({ 'a.ts': 'VIEWED', 'b.ts': 'DISMISSED' })), 'b.ts');
+		assert.strictEqual(findNextUnviewedFile(paths, viewedFiles({ 'a.ts': 'VIEWED', 'b.ts': 'VIEWED' })), 'c.ts');
+	});
+
+	test('returns undefined once every file is viewed', () => {
+		assert.strictEqual(findNextUnviewedFile(paths, viewedFiles({ 'a.ts': 'VIEWED', 'b.ts': 'VIEWED', 'c.ts': 'VIEWED' }), 'b.ts'), undefined);
+		assert.strictEqual(findNextUnviewedFile([], viewedFiles({})), undefined);
+	});
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { mapTimelineEvents } from '../prDescriptionProvider';
+
+type TimelineEvents = Parameters<typeof mapTimelineEvents>[0];
+
+const actor = { login: 'octocat', avatar_url: 'https://avatars.example/octocat' };
+
+// Only the fields mapTimelineEvents reads, the REST types require many more
+function events(...items: object[]): TimelineEvents {
+	return items as unknown as TimelineEvents;
+}
+
+suite('Timeline Events Test Suite', () => {
+	test('maps label, rename and review request events', () => {
+		const items = mapTimelineEvents(events(
+			{ event: 'labeled', created_at: '2024-01-01T00:00:00Z', actor, label: { name: 'bug', color: 'd73a4a' } },
+			{ event: 'renamed', created_at: '2024-01-02T00:00:00Z', actor, rename: { from: 'Old', to: 'New' } },
+			{ event: 'review_requested', created_at: '2024-01-03T00:00:00Z', actor, requested_team: { name: 'core' } },
+		));
+
+		assert.deepStrictEqual(items.map(item => item.type), ['labeled', 'renamed', 'review_requested']);
+		assert.deepStrictEqual(items[0].data, { actor: { login: 'octocat', avatarUrl: actor.avatar_url }, label: { name: 'bug', color: 'd73a4a' } });
+		assert.deepStrictEqual(items[1].data, { actor: { login: 'octocat', avatarUrl: actor.avatar_url }, from: 'Old', to: 'New' });
+		assert.deepStrictEqual(items[2].data, { actor: { login: 'octocat', avatarUrl: actor.avatar_url }, reviewer: 'core', isTeam: true });
+		assert.strictEqual(items[0].timestamp.toISOString(), '2024-01-01T00:00:00.000Z');
+	});
+
+	test('hides the closed event recorded with a merge', () => {
+		const items = mapTimelineEvents(events(
+			{ event: 'merged', created_at: '2024-02-01T00:00:00Z', actor, commit_id: 'abc123' },
+			{ event: 'closed', created_at: '2024-02-01T00:00:00Z', actor },
+			{ event: 'closed', created_at: '2024-03-01T00:00:00Z', actor },
+		));
+
+		assert.deepStrictEqual(items.map(item => item.type), ['merged', 'closed']);
+		assert.deepStrictEqual(items[0].data, { actor: { login: 'octocat', avatarUrl: actor.avatar_url }, commitSha: 'abc123' });
+	});
+
+	test('skips events that are not rendered or miss their details', () => {
+		const items = mapTimelineEvents(events(
+			{ event: 'commented', created_at: '2024-01-01T00:00:00Z', actor },
+			{ event: 'labeled', created_at: '2024-01-01T00:00:00Z', actor },
+			{ event: 'reopened', actor },
+		));
+
+		assert.strictEqual(items.length, 0);
+	});
+
+	test('falls back to ghost for deleted users', () => {
+		const items = mapTimelineEvents(events({ event: 'head_ref_force_pushed', created_at: '2024-01-01T00:00:00Z', actor: null, commit_id: 'def456' }));
+
+		assert.deepStrictEqual(items[0].data, { actor: { login: 'ghost', avatarUrl: undefined }, headSha: 'def456' });
+	});
+});
@@ -15,6 +15,9 @@ export interface GitInfo {
 export interface ChangedFile {
     path: string;
     status: 'A' | 'M' | 'D' | 'R' | 'C' | '?'; // Added, Modified, Deleted, Renamed, Copied, Untracked/Unknown
+    previousPath?: string; // Path on the base side of renamed files
+    additions?: number; // Line stats, only known for branch comparisons
+    deletions?: number;
 }
 
 // Type for files returned by GitHub compare endpoint
@@ -40,7 +43,7 @@ export type FromCreatePrWebviewMessage =
     | { command: 'cancelPr' }
     | { command: 'getChangedFiles' }
     | { command: 'compareBranches'; base: string; head: string }
-    | { command: 'showCreatePrDiff'; data: { base: string; head: string; filename: string; status: ChangedFile['status']; owner: string; repo: string } }
+    | { command: 'showCreatePrDiff'; data: { base: string; head: string; filename: string; previousFilename?: string; status: ChangedFile['status']; owner: string; repo: string } }
     // | { command: 'codeReviewRequest'; data: { base: string; head: string; } } // Can likely remove this if submitCodeReview handles all
     | { command: 'submitCodeReview'; data: { base: string; head: string; } } // Sends base/head to extension
     | { command: 'showError'; text: string };
@@ -0,0 +1,73 @@
+// Subset of the API exported by the built-in vscode.git extension, covering what this extension uses.
+// Mirrors extensions/git/src/api/git.d.ts in the VS Code repository.
+import type { Uri } from 'vscode';
+
+// 0 = local branch, 1 = remote branch, 2 = tag. A const enum upstream, plain numbers here
+// so nothing has to exist at runtime.
+export type RefType = 0 | 1 | 2;
+
+export interface Ref {
+    readonly type: RefType;
+    readonly name?: string;
+    readonly commit?: string;
+    readonly remote?: string;
+}
+
+export interface UpstreamRef {
+    readonly remote: string;
+    readonly name: string;
+}
+
+export interface Branch extends Ref {
+    readonly upstream?: UpstreamRef;
+    readonly ahead?: number;
+    readonly behind?: number;
+}
+
+export interface Remote {
+    readonly name: string;
+    readonly fetchUrl?: string;
+    readonly pushUrl?: string;
+    readonly isReadOnly: boolean;
+}
+
+export interface BranchQuery {
+    readonly remote?: boolean;
+    readonly pattern?: string;
+    readonly count?: number;
+    readonly contains?: string;
+}
+
+export interface RepositoryState {
+    readonly HEAD: Branch | undefined;
+    readonly refs: Ref[];
+    readonly remotes: Remote[];
+}
+
+export interface Repository {
+    readonly rootUri: Uri;
+    readonly state: RepositoryState;
+
+    getConfig(key: string): Promise<string>;
+    setConfig(key: string, value: string): Promise<string>;
+
+    getBranch(name: string): Promise<Branch>;
+    getBranches(query: BranchQuery): Promise<Ref[]>;
+    createBranch(name: string, checkout: boolean, ref?: string): Promise<void>;
+    deleteBranch(name: string, force?: boolean): Promise<void>;
+    setBranchUpstream(name: string, upstream: string): Promise<void>;
+    checkout(treeish: string): Promise<void>;
+
+    addRemote(name: string, url: string): Promise<void>;
+    fetch(remote?: string, ref?: string, depth?: number): Promise<void>;
+    pull(unshallow?: boolean): Promise<void>;
+    merge(ref: string): Promise<void>;
+}
+
+export interface API {
+    readonly repositories: Repository[];
+}
+
+export interface GitExtension {
+    getAPI(version: 1): API;
+}
@@ -16,4 +16,9 @@ export function escapeHtml(unsafe: unknown): string {
         catch (e) { return ''; }
     }
     return unsafe.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#039;");
- }
\ No newline at end of file
+ }
+
+// GitHub may return \r\n in bodies written on the website
+export function normalizeLineEndings(text: string | null | undefined): string {
+    return (text || '').replace(/\r\n/g, '\n');
+}
@@ -1,4 +1,5 @@
 import { ChangedFile, FromCreatePrWebviewMessage, ToCreatePrWebviewMessage, VsCodeApi } from '../types';
+import { buildFileTree, formatFileStats, FileTreeFolder } from '../fileTree';
 
 // --- Global variables for owner/repo ---
 let currentOwner: string | undefined;
@@ -20,9 +21,13 @@ declare const acquireVsCodeApi: () => VsCodeApi;
     const codeReviewButton = document.getElementById('code-review-button') as HTMLButtonElement;
     const createButton = document.getElementById('create-button') as HTMLButtonElement;
     const cancelButton = document.getElementById('cancel-button') as HTMLButtonElement;
+    const fileLayoutToggle = document.getElementById('file-layout-toggle') as HTMLButtonElement | null;
 
     let availableBranches: string[] | undefined = undefined;
     let compareTimeout: number | undefined;
+    // Folder tree or flat list, remembered across reloads of the view
+    let fileLayout: 'tree' | 'flat' = vscode.getState()?.fileLayout || 'tree';
+    let renderedFiles: ChangedFile[] = []; // Re-rendered when the layout is toggled
 
     // --- Event Listeners ---
     window.addEventListener('message', (event: MessageEvent<ToCreatePrWebviewMessage>) => {
@@ -230,6 +235,7 @@ declare const acquireVsCodeApi: () => VsCodeApi;
 
         listDiv.innerHTML = '';
         countSpan.textContent = String(files.length);
+        renderedFiles = files;
 
         if (files.length === 0) {
             const base = baseBranchSelect?.value;
@@ -239,42 +245,114 @@ declare const acquireVsCodeApi: () => VsCodeApi;
             return;
         }
 
+        if (fileLayout === 'tree') {
+            listDiv.appendChild(createFolderContentsList(buildFileTree(files, file => file.path)));
+            return;
+        }
+
         const ul = document.createElement('ul');
         ul.className = 'file-list-ul';
+        files.forEach(file => ul.appendChild(createFileListItem(file)));
+        listDiv.appendChild(ul);
+    }
 
-        files.forEach(file => {
+    // Sub-folders first, then the files directly inside the folder
+    function createFolderContentsList(folder: FileTreeFolder<ChangedFile>): HTMLUListElement {
+        const ul = document.createElement('ul');
+        ul.className = 'file-list-ul';
+
+        folder.folders.forEach(subFolder => {
             const li = document.createElement('li');
-            const status = file.status || '?';
-            li.className = `file-list-item status-${status.toLowerCase()} clickable-file`;
-            li.dataset.filename = file.path;
-            li.dataset.status = status;
-            li.tabIndex = 0;
-            li.role = 'button';
-            li.title = `Click to view changes for ${file.path}`;
-
-            const iconSpan = document.createElement('span');
-            const iconName = getCodiconNameForFile(file.path || '');
-            iconSpan.className = `codicon ${iconName} file-icon`;
-
-            const pathSpan = document.createElement('span');
-            pathSpan.textContent = file.path?.split(/[\\/]/).pop() || file.path || 'Unknown path';
-            pathSpan.title = file.path || '';
-            pathSpan.className = 'file-path';
-
-            const statusSpan = document.createElement('span');
-            statusSpan.className = `file-status file-status-${status.toLowerCase()}`;
-            statusSpan.textContent = status;
-
-            li.appendChild(iconSpan);
-            li.appendChild(pathSpan);
-            li.appendChild(statusSpan);
+            li.className = 'folder-list-entry';
+
+            const row = document.createElement('div');
+            row.className = 'file-list-item folder-row';
+            row.tabIndex = 0;
+            row.role = 'button';
+            row.title = subFolder.path;
+            row.innerHTML = `<span class="codicon codicon-chevron-down folder-chevron"></span><span class="codicon codicon-folder file-icon"></span>`;
+
+            const nameSpan = document.createElement('span');
+            nameSpan.className = 'file-path';
+            nameSpan.textContent = subFolder.name;
+
+            const statsSpan = document.createElement('span');
+            statsSpan.className = 'file-stats';
+            statsSpan.textContent = formatFileStats(subFolder);
+
+            row.appendChild(nameSpan);
+            row.appendChild(statsSpan);
+            li.appendChild(row);
+            li.appendChild(createFolderContentsList(subFolder));
             ul.appendChild(li);
         });
-        listDiv.appendChild(ul);
+
+        folder.files.forEach(file => ul.appendChild(createFileListItem(file)));
+        return ul;
     }
 
+    function createFileListItem(file: ChangedFile): HTMLLIElement {
+        const li = document.createElement('li');
+        const status = file.status || '?';
+        li.className = `file-list-item status-${status.toLowerCase()} clickable-file`;
+        li.dataset.filename = file.path;
+        if (file.previousPath) { li.dataset.previousFilename = file.previousPath; }
+        li.dataset.status = status;
+        li.tabIndex = 0;
+        li.role = 'button';
+        li.title = `Click to view changes for ${file.path}`;
+
+        const iconSpan = document.createElement('span');
+        const iconName = getCodiconNameForFile(file.path || '');
+        iconSpan.className = `codicon ${iconName} file-icon`;
+
+        const pathSpan = document.createElement('span');
+        pathSpan.textContent = file.path?.split(/[\\/]/).pop() || file.path || 'Unknown path';
+        pathSpan.title = file.path || '';
+        pathSpan.className = 'file-path';
+
+        const statsSpan = document.createElement('span');
+        statsSpan.className = 'file-stats';
+        statsSpan.textContent = formatFileStats(file);
+
+        const statusSpan = document.createElement('span');
+        statusSpan.className = `file-status file-status-${status.toLowerCase()}`;
+        statusSpan.textContent = status;
+
+        li.appendChild(iconSpan);
+        li.appendChild(pathSpan);
+        li.appendChild(statsSpan);
+        li.appendChild(statusSpan);
+        return li;
+    }
+
+    function updateFileLayoutToggle() {
+        if (!fileLayoutToggle) { return; }
+        const nextLayout = fileLayout === 'tree' ? 'flat' : 'tree';
+        fileLayoutToggle.title = nextLayout === 'tree' ? 'View as Tree' : 'View as List';
+        fileLayoutToggle.innerHTML = `<span class="codicon codicon-list-${nextLayout}"></span>`;
+    }
+
+    fileLayoutToggle?.addEventListener('click', () => {
+        fileLayout = fileLayout === 'tree' ? 'flat' : 'tree';
+        vscode.setState({ ...vscode.getState(), fileLayout });
+        updateFileLayoutToggle();
+        if (renderedFiles.length > 0) {
+            renderFileList(filesChangedListDiv, filesChangedCountSpan, renderedFiles);
+        }
+    });
+
     filesChangedListDiv?.addEventListener('click', (event) => {
         const target = event.target as HTMLElement;
+
+        // Folder rows collapse or expand their contents
+        const folderRow = target.closest<HTMLElement>('.folder-row');
+        if (folderRow) {
+            const collapsed = folderRow.parentElement?.classList.toggle('collapsed');
+            folderRow.querySelector('.folder-chevron')?.classList.replace(collapsed ? 'codicon-chevron-down' : 'codicon-chevron-right', collapsed ? 'codicon-chevron-right' : 'codicon-chevron-down');
+            return;
+        }
+
         const listItem = target.closest<HTMLLIElement>('li.clickable-file');
 
         if (listItem && listItem.dataset.filename && listItem.dataset.status && currentOwner && currentRepo) {
@@ -292,7 +370,7 @@ declare const acquireVsCodeApi: () => VsCodeApi;
             const message: FromCreatePrWebviewMessage = {
                 command: 'showCreatePrDiff',
                 data: {
-                    base: base, head: head, filename: filename, status: status,
+                    base: base, head: head, filename: filename, previousFilename: listItem.dataset.previousFilename, status: status,
                     owner: currentOwner, repo: currentRepo
                 }
             };
@@ -303,7 +381,7 @@ declare const acquireVsCodeApi: () => VsCodeApi;
     filesChangedListDiv?.addEventListener('keydown', (event) => {
         if (event.key === 'Enter' || event.key === ' ') {
             const target = event.target as HTMLElement;
-            if (target.matches('li.clickable-file')) {
+            if (target.matches('li.clickable-file, .folder-row')) {
                 event.preventDefault();
                 target.click();
             }
@@ -315,5 +393,6 @@ declare const acquireVsCodeApi: () => VsCodeApi;
     const readyMessage: FromCreatePrWebviewMessage = { command: 'webviewReady' };
     vscode.postMessage(readyMessage);
     updateButtonStates();
+    updateFileLayoutToggle();
 
 }());
\ No newline at end of file
@@ -9,9 +9,14 @@ declare const acquireVsCodeApi: () => VsCodeApi;
 
 
 // Basic structures for data received via postMessage
-type ReviewComment = { body?: string | null; body_html?: string | null; diff_hunk?: string | null; id: number; user?: { login?: string | null, avatar_url?: string | null } | null; created_at: string; path?: string | null; html_url?: string | null; line?: number | null; start_line?: number | null; pull_request_review_id?: number | null };
+type ReviewComment = { body?: string | null; body_html?: string | null; diff_hunk?: string | null; id: number; user?: { login?: string | null, avatar_url?: string | null } | null; created_at: string; path?: string | null; html_url?: string | null; line?: number | null; start_line?: number | null; pull_request_review_id?: number | null; in_reply_to_id?: number | null; replies?: ReviewComment[] | null; thread?: ReviewThreadState | null; reactions?: ReactionRollup | null };
+type ReviewThreadState = { id: string; isResolved: boolean };
+type CommentKind = 'issue' | 'review';
+type ReactionContent = '+1' | '-1' | 'laugh' | 'confused' | 'heart' | 'hooray' | 'rocket' | 'eyes';
+type ReactionTargetKind = 'issue' | 'issue_comment' | 'review_comment';
+type ReactionRollup = Partial<Record<ReactionContent, number>> & { total_count?: number };
 type Review = { id: number; state?: string | null; user?: { login?: string | null, avatar_url?: string | null } | null; submitted_at?: string | null; body?: string | null; body_html?: string | null; html_url?: string | null; associated_comments?: ReviewComment[] | null };
-type IssueComment = { body?: string | null; body_html?: string | null; id: number; user?: { login?: string | null, avatar_url?: string | null } | null; created_at: string; html_url?: string | null; };
+type IssueComment = { body?: string | null; body_html?: string | null; id: number; user?: { login?: string | null, avatar_url?: string | null } | null; created_at: string; html_url?: string | null; reactions?: ReactionRollup | null };
 type CommitListItem = { sha: string; commit: { author?: { name?: string | null, date?: string | null } | null, committer?: { date?: string | null } | null, message: string }; author?: { login?: string | null, avatar_url?: string | null } | null; html_url?: string | null };
 
 interface TimelineItemBase { timestamp: Date; } 
@@ -20,22 +25,95 @@ interface ReviewCommentTimelineItem extends TimelineItemBase { type: 'review_com
 interface IssueCommentTimelineItem extends TimelineItemBase { type: 'issue_comment'; data: IssueComment }
 interface CommitTimelineItem extends TimelineItemBase { type: 'commit'; data: CommitListItem }
 
-type TimelineItem = ReviewTimelineItem | ReviewCommentTimelineItem | IssueCommentTimelineItem | CommitTimelineItem;
+type TimelineEventActor = { login: string; avatarUrl?: string | null };
+interface LabelTimelineItem extends TimelineItemBase { type: 'labeled' | 'unlabeled'; data: { actor: TimelineEventActor; label: { name: string; color: string } } }
+interface ForcePushTimelineItem extends TimelineItemBase { type: 'head_ref_force_pushed'; data: { actor: TimelineEventActor; headSha: string | null } }
+interface ReviewRequestTimelineItem extends TimelineItemBase { type: 'review_requested' | 'review_request_removed'; data: { actor: TimelineEventActor; reviewer: string; isTeam: boolean } }
+interface RenameTimelineItem extends TimelineItemBase { type: 'renamed'; data: { actor: TimelineEventActor; from: string; to: string } }
+interface StateChangeTimelineItem extends TimelineItemBase { type: 'closed' | 'reopened' | 'merged'; data: { actor: TimelineEventActor; commitSha: string | null } }
+type TimelineEventItem = LabelTimelineItem | ForcePushTimelineItem | ReviewRequestTimelineItem | RenameTimelineItem | StateChangeTimelineItem;
+
+type TimelineItem = ReviewTimelineItem | ReviewCommentTimelineItem | IssueCommentTimelineItem | CommitTimelineItem | TimelineEventItem;
 
 interface PrDetails {
+    number: number;
+    title: string;
     timeline: TimelineItem[];
+    olderTimelineCount: number;
+    olderTimelineLoading: boolean;
     mergeable_state: string;
     mergeable: boolean | null;
     state: 'open' | 'closed';
     merged: boolean;
+    draft: boolean;
+    autoMerge: AutoMergeState | null;
+    behindBy: number;
+    commitMessages: string[];
     authorLogin: string;
     authorAvatarUrl?: string | null;
     baseLabel: string;
     headLabel: string;
     body: string | null; 
     createdAt: string; 
+    pendingReview: PendingReviewSummary | null;
+    currentUserLogin: string | null;
+    bodyReactions: ReactionRollup | null;
+    viewerReactions: string[];
+    sidebar: PrSidebarData;
+    checks: PrChecksData | null;
 }
 
+type PrCheckItem = {
+    id: string;
+    kind: 'check_run' | 'status';
+    name: string;
+    status: 'queued' | 'in_progress' | 'completed';
+    conclusion: string | null;
+    startedAt: string | null;
+    completedAt: string | null;
+    detailsUrl: string | null;
+    checkSuiteId: number | null;
+};
+
+type PrChecksData = {
+    headSha: string;
+    state: 'success' | 'failure' | 'pending' | 'none';
+    checks: PrCheckItem[];
+};
+
+type ReviewerState = 'REQUESTED' | 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED';
+
+type PrSidebarData = {
+    reviewers: { login: string; avatarUrl?: string | null; state: ReviewerState }[];
+    requestedTeams: { slug: string; name: string }[];
+    assignees: { login: string; avatarUrl?: string | null }[];
+    labels: { name: string; color: string; description?: string | null }[];
+    milestone: { number: number; title: string } | null;
+};
+
+type PendingReviewSummary = {
+    draftCount: number;
+};
+
+type CommitFileSummary = {
+    filename: string;
+    previousFilename?: string;
+    status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+    additions: number;
+    deletions: number;
+};
+
+type CommitFilesData = {
+    sha: string;
+    parentSha: string | null;
+    files: CommitFileSummary[];
+};
+
+type AutoMergeState = {
+    mergeMethod: 'merge' | 'squash' | 'rebase';
+    enabledBy: string | null;
+};
+
 type MergeStatusUpdateData = {
     mergeable: boolean | null;
     mergeable_state: string;
@@ -43,8 +121,23 @@ type MergeStatusUpdateData = {
 
 type FromExtensionMessage =
     | { command: 'loadDetails'; data: PrDetails }
-    | { command: 'updateTimeline'; timeline: TimelineItem[] } // If polling only sends timeline
+    | { command: 'updateTimeline'; timeline: TimelineItem[]; olderCount: number; commitMessages: string[]; viewerReactions: string[] } // If polling only sends timeline
+    | { command: 'appendTimeline'; data: { items: TimelineItem[]; olderCount: number; viewerReactions: string[] } }
     | { command: 'updateMergeStatus'; data: MergeStatusUpdateData }
+    | { command: 'reviewSubmitFailed' }
+    | { command: 'updatePendingReview'; data: PendingReviewSummary | null }
+    | { command: 'threadActionFailed' }
+    | { command: 'commentUpdated'; data: { commentId: number; kind: CommentKind; body: string } }
+    | { command: 'commentDeleted'; data: { commentId: number; kind: CommentKind } }
+    | { command: 'commentActionFailed'; data: { commentId: number; kind: CommentKind } }
+    | { command: 'updateSidebar'; data: PrSidebarData }
+    | { command: 'updateChecks'; data: PrChecksData | null }
+    | { command: 'commitFiles'; data: CommitFilesData }
+    | { command: 'prDetailsUpdated'; data: { field: 'title' | 'body'; title: string; body: string | null } }
+    | { command: 'prEditFailed'; data: { field: 'title' | 'body' } }
+    | { command: 'commitFilesFailed'; data: { sha: string } }
+    | { command: 'reactionToggled'; data: { target: ReactionTargetKind; id: number; content: ReactionContent; add: boolean; countChanged: boolean } }
+    | { command: 'reactionToggleFailed'; data: { target: ReactionTargetKind; id: number } }
     | { command: 'showError'; message: string };
 
 
@@ -53,18 +146,53 @@ type FromExtensionMessage =
     const timelineContainer = document.getElementById('timeline-area');
 
     const mergeStatusDiv = document.getElementById('merge-status');
+    const checksStatusDiv = document.getElementById('checks-status');
+    let checksExpanded = false; // Remember whether the user opened the check list across updates
 
     const metadataHeaderDiv = document.getElementById('pr-metadata-header');
 
     const mergeMethodSelect = document.getElementById('merge-method-select') as HTMLSelectElement | null;
     const confirmMergeButton = document.getElementById('confirm-merge-button') as HTMLButtonElement | null; 
+    const mergeCommitArea = document.getElementById('merge-commit-area');
+    const mergeCommitTitleInput = document.getElementById('merge-commit-title') as HTMLInputElement | null;
+    const mergeCommitMessageTextArea = document.getElementById('merge-commit-message') as HTMLTextAreaElement | null;
+    const deleteBranchCheckbox = document.getElementById('delete-branch-checkbox') as HTMLInputElement | null;
+    const enableAutoMergeButton = document.getElementById('enable-auto-merge-button') as HTMLButtonElement | null;
+    const autoMergeStatusDiv = document.getElementById('auto-merge-status');
+    const updateBranchControls = document.getElementById('update-branch-controls');
+    const updateBranchMethodSelect = document.getElementById('update-branch-method') as HTMLSelectElement | null;
+    const updateBranchButton = document.getElementById('update-branch-button') as HTMLButtonElement | null;
 
     const descriptionAreaDiv = document.getElementById('pr-description-area');
+    const sidebarDiv = document.getElementById('pr-sidebar');
 
     const commentTextArea = document.getElementById('new-comment-text') as HTMLTextAreaElement | null;
     const addCommentButton = document.getElementById('add-comment-button') as HTMLButtonElement | null;
     const closeButton = document.getElementById('close-button') as HTMLButtonElement | null;
+    const reopenButton = document.getElementById('reopen-button') as HTMLButtonElement | null;
+    const readyForReviewButton = document.getElementById('ready-for-review-button') as HTMLButtonElement | null;
+    const convertToDraftButton = document.getElementById('convert-to-draft-button') as HTMLButtonElement | null;
     const refreshButton = document.getElementById('refresh-button') as HTMLButtonElement | null;
+    const viewAllChangesButton = document.getElementById('view-all-changes-button') as HTMLButtonElement | null;
+    const titleHeading = document.getElementById('pr-title');
+    const editTitleButton = document.getElementById('edit-title-button') as HTMLButtonElement | null;
+
+    const reviewBodyTextArea = document.getElementById('review-body-text') as HTMLTextAreaElement | null;
+    const submitReviewButton = document.getElementById('submit-review-button') as HTMLButtonElement | null;
+    const startReviewButton = document.getElementById('start-review-button') as HTMLButtonElement | null;
+    const discardReviewButton = document.getElementById('discard-review-button') as HTMLButtonElement | null;
+
+    let currentPrDetails: PrDetails | null = null; // Last details received, used to re-render the header
+    let currentUserLogin: string | null = null; // Signed-in user, owns the editable comments
+    const rawCommentBodies = new Map<string, string>(); // Markdown source per comment, keyed by `${kind}:${id}`
+    const reactionCounts = new Map<string, Partial<Record<ReactionContent, number>>>(); // Keyed by `${target}:${id}`
+    let viewerReactions = new Set<string>(); // `${target}:${id}:${content}` the signed-in user reacted with
+    const commitFilesCache = new Map<string, CommitFilesData>(); // Keyed by commit SHA, commits never change
+    const expandedCommits = new Set<string>(); // Kept so polling re-renders don't collapse commits
+
+    const REACTION_EMOJI: Record<ReactionContent, string> = {
+        '+1': '👍', '-1': '👎', laugh: '😄', hooray: '🎉', confused: '😕', heart: '❤️', rocket: '🚀', eyes: '👀'
+    };
 
     // Instantiate Markdown-It
     const md = MarkdownIt({
@@ -93,10 +221,14 @@ type FromExtensionMessage =
                 statusClass = 'status-closed';
                 statusIcon = 'codicon-git-pull-request-closed';
             }
+        } else if (prData.state === 'open' && prData.draft) {
+            statusText = 'Draft';
+            statusClass = 'status-draft';
+            statusIcon = 'codicon-git-pull-request-draft';
         } else if (prData.state === 'open') {
             statusText = 'Open';
             statusClass = 'status-open';
-            statusIcon = 'codicon-git-pull-request'; // Or Draft icon if available/needed
+            statusIcon = 'codicon-git-pull-request';
         }
 
         const authorAvatarHtml = prData.authorAvatarUrl
@@ -111,6 +243,13 @@ type FromExtensionMessage =
             <code class="branch-label">${escapeHtml(prData.headLabel)}</code>
         `;
 
+        // Badge shown while a review is in progress
+        const pendingReviewHtml = prData.pendingReview
+            ? `<span class="pending-review-badge" title="Draft comments are submitted together with your review">
+                    <span class="codicon codicon-comment-draft"></span> Review in progress &middot; ${prData.pendingReview.draftCount} draft comment${prData.pendingReview.draftCount === 1 ? '' : 's'}
+               </span>`
+            : '';
+
         metadataHeaderDiv.innerHTML = `
             <span class="pr-status-badge ${statusClass}">
                 <span class="codicon ${statusIcon}"></span> ${statusText}
@@ -118,9 +257,25 @@ type FromExtensionMessage =
             <span class="pr-description-text">
                 ${descriptionHtml}
             </span>
+            ${pendingReviewHtml}
         `;
     }
 
+    // Toggle review box controls depending on whether a review is pending
+    function renderPendingReviewControls(pendingReview: PendingReviewSummary | null) {
+        if (startReviewButton) {
+            startReviewButton.style.display = pendingReview ? 'none' : '';
+            startReviewButton.disabled = false;
+        }
+        if (discardReviewButton) {
+            discardReviewButton.style.display = pendingReview ? '' : 'none';
+        }
+        if (submitReviewButton && !submitReviewButton.disabled) {
+            const countText = pendingReview && pendingReview.draftCount > 0 ? ` (${pendingReview.draftCount})` : '';
+            submitReviewButton.innerHTML = `<span class="codicon codicon-check-all"></span> Submit review${countText}`;
+        }
+    }
+
     function renderMergeStatus(mergeable: boolean | null, state: string) {
         if (!mergeStatusDiv) return;
         mergeStatusDiv.classList.remove('loading');
@@ -142,6 +297,10 @@ type FromExtensionMessage =
              iconClass = 'codicon-error';
              text = 'Merging is blocked (e.g., required reviews missing).';
              statusClass = 'merge-blocked';
+        } else if (state === 'draft') {
+             iconClass = 'codicon-git-pull-request-draft';
+             text = 'This pull request is still a work in progress. Mark it ready for review to merge.';
+             statusClass = 'merge-unknown';
         } else if (state === 'unstable' || state === 'behind') {
             iconClass = 'codicon-issues'; 
             text = `Merging may be possible, but the branch is ${state}. Consider updating.`;
@@ -161,6 +320,277 @@ type FromExtensionMessage =
         }
     }
 
+    const FAILED_CHECK_CONCLUSIONS = ['failure', 'timed_out', 'cancelled', 'action_required', 'error'];
+
+    function formatDuration(startedAt: string | null, completedAt: string | null): string {
+        if (!startedAt) { return ''; }
+        const end = completedAt ? new Date(completedAt).getTime() : Date.now();
+        const seconds = Math.max(0, Math.round((end - new Date(startedAt).getTime()) / 1000));
+        if (seconds < 60) { return `${seconds}s`; }
+        const minutes = Math.floor(seconds / 60);
+        if (minutes < 60) { return `${minutes}m ${seconds % 60}s`; }
+        return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+    }
+
+    function getCheckIcon(check: PrCheckItem): { icon: string; cssClass: string; text: string } {
+        if (check.status !== 'completed') {
+            return { icon: 'codicon-sync spin', cssClass: 'check-pending', text: check.status === 'queued' ? 'Queued' : 'In progress' };
+        }
+        if (check.conclusion && FAILED_CHECK_CONCLUSIONS.includes(check.conclusion)) {
+            return { icon: 'codicon-error', cssClass: 'check-failed', text: check.conclusion.replace(/_/g, ' ') };
+        }
+        if (check.conclusion === 'success') {
+            return { icon: 'codicon-pass', cssClass: 'check-success', text: 'Successful' };
+        }
+        return { icon: 'codicon-circle-slash', cssClass: 'check-neutral', text: (check.conclusion || 'neutral').replace(/_/g, ' ') };
+    }
+
+    // Render Function for CI Checks
+    function renderChecks(checksData: PrChecksData | null) {
+        if (!checksStatusDiv) { return; }
+        if (!checksData || checksData.checks.length === 0) {
+            checksStatusDiv.className = 'checks-section status-section merge-unknown';
+            checksStatusDiv.innerHTML = `<span class="codicon codicon-circle-large-outline"></span> ${checksData ? 'No checks reported for the latest commit.' : 'Could not load checks.'}`;
+            return;
+        }
+
+        const failed = checksData.checks.filter(c => c.conclusion && FAILED_CHECK_CONCLUSIONS.includes(c.conclusion));
+        const pending = checksData.checks.filter(c => c.status !== 'completed');
+        const succeeded = checksData.checks.filter(c => c.conclusion === 'success');
+
+        let summaryIcon = 'codicon-pass';
+        let summaryClass = 'merge-clean';
+        let summaryText = 'All checks have passed';
+        if (checksData.state === 'failure') {
+            summaryIcon = 'codicon-error';
+            summaryClass = 'merge-blocked';
+            summaryText = 'Some checks were not successful';
+        } else if (checksData.state === 'pending') {
+            summaryIcon = 'codicon-sync spin';
+            summaryClass = 'merge-unstable';
+            summaryText = 'Some checks haven\'t completed yet';
+        }
+        const countsText = [
+            failed.length ? `${failed.length} failing` : '',
+            pending.length ? `${pending.length} pending` : '',
+            succeeded.length ? `${succeeded.length} successful` : ''
+        ].filter(Boolean).join(', ');
+
+        // Only check runs can be re-requested, statuses belong to external services
+        const failedSuiteIds = [...new Set(failed.map(c => c.checkSuiteId).filter((id): id is number => id !== null))];
+
+        const rowsHtml = checksData.checks.map(check => {
+            const { icon, cssClass, text } = getCheckIcon(check);
+            const duration = formatDuration(check.startedAt, check.completedAt);
+            return `<li class="check-row ${cssClass}">
+                        <span class="codicon ${icon}"></span>
+                        <span class="check-name">${escapeHtml(check.name)}</span>
+                        <span class="check-conclusion">${escapeHtml(text)}${duration ? ` &middot; ${duration}` : ''}</span>
+                        ${check.detailsUrl ? `<a class="check-details" href="${escapeHtml(check.detailsUrl)}" target="_blank">Details</a>` : ''}
+                    </li>`;
+        }).join('');
+
+        checksStatusDiv.className = 'checks-section';
+        checksStatusDiv.innerHTML = `
+            <div class="status-section ${summaryClass}">
+                <span class="codicon ${summaryIcon}"></span>
+                <span>${summaryText} <span class="checks-counts">(${countsText})</span></span>
+                <span class="checks-header-actions">
+                    ${failedSuiteIds.length > 0 ? `<button id="rerun-checks-button" class="button secondary-button" data-suite-ids="${failedSuiteIds.join(',')}"><span class="codicon codicon-debug-rerun"></span> Re-run failed</button>` : ''}
+                    <button id="toggle-checks-button" class="icon-action" title="${checksExpanded ? 'Hide' : 'Show'} all checks"><span class="codicon ${checksExpanded ? 'codicon-chevron-up' : 'codicon-chevron-down'}"></span></button>
+                </span>
+            </div>
+            <ul class="checks-list" ${checksExpanded ? '' : 'hidden'}>${rowsHtml}</ul>`;
+    }
+
+    // Render Function for the Reviewers / Assignees / Labels / Milestone sidebar
+    function renderSidebar(sidebar: PrSidebarData) {
+        if (!sidebarDiv) { return; }
+
+        const renderUser = (user: { login: string; avatarUrl?: string | null }, extraHtml: string = '') => `
+            <li class="sidebar-user">
+                ${user.avatarUrl ? `<img class="avatar" src="${escapeHtml(user.avatarUrl)}" alt="${escapeHtml(user.login)}" width="18" height="18">` : '<span class="avatar-placeholder" style="width:18px; height:18px;"></span>'}
+                <span>${escapeHtml(user.login)}</span>
+                ${extraHtml}
+            </li>`;
+
+        const reviewerStateIcons: Record<ReviewerState, { icon: string; className: string; title: string }> = {
+            REQUESTED: { icon: 'circle-outline', className: 'reviewer-pending', title: 'Awaiting review' },
+            APPROVED: { icon: 'check', className: 'reviewer-approved', title: 'Approved' },
+            CHANGES_REQUESTED: { icon: 'request-changes', className: 'reviewer-changes-requested', title: 'Requested changes' },
+            COMMENTED: { icon: 'comment', className: 'reviewer-commented', title: 'Commented' },
+            DISMISSED: { icon: 'circle-slash', className: 'reviewer-commented', title: 'Review dismissed' },
+        };
+        const renderReviewer = (reviewer: PrSidebarData['reviewers'][number]) => {
+            const stateIcon = reviewerStateIcons[reviewer.state];
+            return renderUser(reviewer, `<span class="reviewer-state ${stateIcon.className}" title="${stateIcon.title}"><span class="codicon codicon-${stateIcon.icon}"></span></span>`);
+        };
+
+        const renderSection = (field: string, title: string, contentHtml: string, emptyText: string) => `
+            <div class="sidebar-section">
+                <div class="sidebar-section-header">
+                    <span>${title}</span>
+                    <button class="icon-action sidebar-edit-button" data-field="${field}" title="Edit ${title.toLowerCase()}"><span class="codicon codicon-gear"></span></button>
+                </div>
+                ${contentHtml || `<span class="sidebar-empty">${emptyText}</span>`}
+            </div>`;
+
+        const reviewersHtml = (sidebar.reviewers.length > 0 || sidebar.requestedTeams.length > 0)
+            ? `<ul class="sidebar-list">
+                    ${sidebar.reviewers.map(renderReviewer).join('')}
+                    ${sidebar.requestedTeams.map(team => `<li class="sidebar-user"><span class="codicon codicon-organization"></span><span>${escapeHtml(team.name)}</span></li>`).join('')}
+               </ul>`
+            : '';
+        const assigneesHtml = sidebar.assignees.length > 0
+            ? `<ul class="sidebar-list">${sidebar.assignees.map(user => renderUser(user)).join('')}</ul>`
+            : '';
+        const labelsHtml = sidebar.labels.length > 0
+            ? `<div class="sidebar-labels">${sidebar.labels.map(label => `<span class="label-pill" style="border-color: #${escapeHtml(label.color)};" title="${escapeHtml(label.description || label.name)}"><span class="label-dot" style="background-color: #${escapeHtml(label.color)};"></span>${escapeHtml(label.name)}</span>`).join('')}</div>`
+            : '';
+        const milestoneHtml = sidebar.milestone
+            ? `<span class="sidebar-milestone"><span class="codicon codicon-milestone"></span> ${escapeHtml(sidebar.milestone.title)}</span>`
+            : '';
+
+        sidebarDiv.innerHTML =
+            renderSection('reviewers', 'Reviewers', reviewersHtml, 'No reviewers requested') +
+            renderSection('assignees', 'Assignees', assigneesHtml, 'No one assigned') +
+            renderSection('labels', 'Labels', labelsHtml, 'None yet') +
+            renderSection('milestone', 'Milestone', milestoneHtml, 'No milestone');
+    }
+
+    function renderTitle(prData: PrDetails) {
+        const titleLink = document.getElementById('pr-title-link');
+        if (titleLink) { titleLink.textContent = `#${prData.number}: ${prData.title}`; }
+    }
+
+    // Title editing replaces the heading link with an input until saved or cancelled
+    function openTitleEditor() {
+        if (!titleHeading || !currentPrDetails || titleHeading.classList.contains('editing')) { return; }
+        titleHeading.classList.add('editing');
+        const form = document.createElement('div');
+        form.className = 'pr-title-edit-form';
+        form.innerHTML = `<input type="text" class="pr-title-input">
+            <button class="button secondary-button pr-title-cancel">Cancel</button>
+            <button class="button primary-button pr-title-save"><span class="codicon codicon-save"></span> Save</button>`;
+        const input = form.querySelector<HTMLInputElement>('.pr-title-input');
+        if (input) { input.value = currentPrDetails.title; }
+        titleHeading.appendChild(form);
+        input?.focus();
+        input?.select();
+    }
+
+    function closeTitleEditor() {
+        titleHeading?.querySelector('.pr-title-edit-form')?.remove();
+        titleHeading?.classList.remove('editing');
+    }
+
+    // Description editor with a live markdown preview next to the text area
+    function openBodyEditor() {
+        if (!descriptionAreaDiv || !currentPrDetails || descriptionAreaDiv.classList.contains('editing')) { return; }
+        descriptionAreaDiv.classList.add('editing');
+        const form = document.createElement('div');
+        form.className = 'pr-body-edit-form';
+        form.innerHTML = `<div class="pr-body-editor">
+                <textarea class="pr-body-input" placeholder="Describe the changes in this pull request..."></textarea>
+                <div class="pr-body-preview markdown-body"></div>
+            </div>
+            <div class="comment-edit-actions">
+                <button class="button secondary-button pr-body-cancel">Cancel</button>
+                <button class="button primary-button pr-body-save"><span class="codicon codicon-save"></span> Save</button>
+            </div>`;
+        const textArea = form.querySelector<HTMLTextAreaElement>('.pr-body-input');
+        const preview = form.querySelector<HTMLElement>('.pr-body-preview');
+        const updatePreview = () => {
+            if (!textArea || !preview) { return; }
+            preview.innerHTML = textArea.value.trim() ? md.render(textArea.value) : '<p class="no-description"><em>Nothing to preview.</em></p>';
+        };
+        if (textArea) {
+            textArea.value = currentPrDetails.body || '';
+            textArea.addEventListener('input', updatePreview);
+        }
+        updatePreview();
+        // Keep the author header, replace the rendered body and reactions while editing
+        descriptionAreaDiv.querySelectorAll(':scope > :not(.comment-header)').forEach(element => (element as HTMLElement).hidden = true);
+        descriptionAreaDiv.appendChild(form);
+        textArea?.focus();
+    }
+
+    function closeBodyEditor() {
+        if (!descriptionAreaDiv) { return; }
+        descriptionAreaDiv.querySelector('.pr-body-edit-form')?.remove();
+        descriptionAreaDiv.querySelectorAll<HTMLElement>(':scope > [hidden]').forEach(element => element.hidden = false);
+        descriptionAreaDiv.classList.remove('editing');
+    }
+
+    // Pre-fills the merge commit like GitHub does; rebase merges create no merge commit
+    function prefillMergeCommitFields() {
+        if (!currentPrDetails || !mergeMethodSelect || !mergeCommitTitleInput || !mergeCommitMessageTextArea) { return; }
+        const method = mergeMethodSelect.value;
+        if (mergeCommitArea) { mergeCommitArea.style.display = method === 'rebase' ? 'none' : ''; }
+
+        if (method === 'squash') {
+            mergeCommitTitleInput.value = `${currentPrDetails.title} (#${currentPrDetails.number})`;
+            mergeCommitMessageTextArea.value = formatSquashMessage(currentPrDetails.commitMessages);
+        } else {
+            mergeCommitTitleInput.value = `Merge pull request #${currentPrDetails.number} from ${currentPrDetails.headLabel.replace(':', '/')}`;
+            mergeCommitMessageTextArea.value = currentPrDetails.title;
+        }
+    }
+
+    function formatSquashMessage(commitMessages: string[]): string {
+        return commitMessages.map(message => `* ${message}`).join('\n\n');
+    }
+
+    // Commit messages arrive in full once older timeline pages have loaded
+    function updateCommitMessages(commitMessages: string[]) {
+        if (!currentPrDetails) { return; }
+        const wasPrefilled = mergeMethodSelect?.value === 'squash'
+            && mergeCommitMessageTextArea?.value === formatSquashMessage(currentPrDetails.commitMessages);
+        currentPrDetails.commitMessages = commitMessages;
+        if (wasPrefilled) { prefillMergeCommitFields(); }
+    }
+
+    // Auto-merge state and the "Update branch" action below the merge button
+    function renderMergeOptions(prData: PrDetails) {
+        const isOpen = prData.state === 'open';
+        const canMergeNow = prData.mergeable === true && prData.mergeable_state === 'clean';
+
+        if (enableAutoMergeButton) {
+            enableAutoMergeButton.style.display = isOpen && !prData.draft && !prData.autoMerge && !canMergeNow ? '' : 'none';
+        }
+
+        if (autoMergeStatusDiv) {
+            if (isOpen && prData.autoMerge) {
+                const methodNames = { merge: 'merge commit', squash: 'squash', rebase: 'rebase' };
+                autoMergeStatusDiv.style.display = '';
+                autoMergeStatusDiv.innerHTML = `
+                    <span class="codicon codicon-clock"></span>
+                    <span class="auto-merge-text">Auto-merge (${methodNames[prData.autoMerge.mergeMethod] || escapeHtml(prData.autoMerge.mergeMethod)}) enabled${prData.autoMerge.enabledBy ? ` by <strong>${escapeHtml(prData.autoMerge.enabledBy)}</strong>` : ''}. This pull request will merge when all requirements are met.</span>
+                    <button id="disable-auto-merge-button" class="button secondary-button">Disable auto-merge</button>`;
+            } else {
+                autoMergeStatusDiv.style.display = 'none';
+                autoMergeStatusDiv.innerHTML = '';
+            }
+        }
+
+        if (updateBranchControls) {
+            updateBranchControls.style.display = isOpen && prData.behindBy > 0 ? '' : 'none';
+            const behindByText = document.getElementById('behind-by-text');
+            if (behindByText) {
+                behindByText.textContent = `This branch is ${prData.behindBy} commit${prData.behindBy === 1 ? '' : 's'} behind ${prData.baseLabel}.`;
+            }
+        }
+    }
+
+    // Show only the state actions that apply: close/reopen and draft/ready
+    function renderStateControls(prData: PrDetails) {
+        const isOpen = prData.state === 'open';
+        if (closeButton) { closeButton.style.display = isOpen ? '' : 'none'; }
+        if (reopenButton) { reopenButton.style.display = !isOpen && !prData.merged ? '' : 'none'; }
+        if (readyForReviewButton) { readyForReviewButton.style.display = isOpen && prData.draft ? '' : 'none'; }
+        if (convertToDraftButton) { convertToDraftButton.style.display = isOpen && !prData.draft ? '' : 'none'; }
+    }
+
     // Render Function for PR Description 
     function renderPrDescription(prData: PrDetails) {
         if (!descriptionAreaDiv) return;
@@ -176,6 +606,9 @@ type FromExtensionMessage =
             <div class="comment-header"> 
                 ${authorAvatarHtml}
                 <strong class="author">${escapeHtml(prData.authorLogin)}</strong> commented on ${formattedDate}
+                <span class="comment-actions">
+                    <button class="icon-action pr-body-edit-button" title="Edit description"><span class="codicon codicon-edit"></span></button>
+                </span>
             </div>
         `;
 
@@ -194,7 +627,7 @@ type FromExtensionMessage =
         }
 
         // Combine header and body
-        descriptionAreaDiv.innerHTML = headerHtml + bodyHtml;
+        descriptionAreaDiv.innerHTML = headerHtml + bodyHtml + generateReactionsHtml('issue', prData.number, prData.bodyReactions);
         descriptionAreaDiv.classList.remove('loading'); // Remove loading state if applicable
     }
 
@@ -233,10 +666,61 @@ type FromExtensionMessage =
         return commentBodyContent ? `<div class="comment-body">${commentBodyContent}</div>` : '';
     }
 
+    // Edit/Delete buttons, only for comments written by the signed-in user
+    function generateCommentActionsHtml(comment: { id: number; body?: string | null; user?: { login?: string | null } | null }): string {
+        if (!currentUserLogin || comment.user?.login !== currentUserLogin) { return ''; }
+        return `<span class="comment-actions">
+                    <button class="icon-action comment-edit-button" title="Edit comment"><span class="codicon codicon-edit"></span></button>
+                    <button class="icon-action comment-delete-button" title="Delete comment"><span class="codicon codicon-trash"></span></button>
+                </span>`;
+    }
+
+    // Reaction pills with counts plus a picker to add new ones
+    function generateReactionsHtml(target: ReactionTargetKind, id: number, rollup?: ReactionRollup | null): string {
+        const targetKey = `${target}:${id}`;
+        if (rollup) {
+            const counts: Partial<Record<ReactionContent, number>> = {};
+            (Object.keys(REACTION_EMOJI) as ReactionContent[]).forEach(content => { counts[content] = rollup[content] || 0; });
+            reactionCounts.set(targetKey, counts);
+        }
+        return `<div class="reactions-bar" data-reaction-target="${target}" data-reaction-id="${id}">${generateReactionsInnerHtml(targetKey)}</div>`;
+    }
+
+    function renderReactionBars(target: ReactionTargetKind, id: number) {
+        document.querySelectorAll<HTMLElement>(`.reactions-bar[data-reaction-target="${target}"][data-reaction-id="${id}"]`).forEach(bar => {
+            bar.innerHTML = generateReactionsInnerHtml(`${target}:${id}`);
+        });
+    }
+
+    function generateReactionsInnerHtml(targetKey: string): string {
+        const counts = reactionCounts.get(targetKey) || {};
+        const pillsHtml = (Object.keys(REACTION_EMOJI) as ReactionContent[])
+            .filter(content => (counts[content] || 0) > 0)
+            .map(content => {
+                const reacted = viewerReactions.has(`${targetKey}:${content}`);
+                return `<button class="reaction-pill${reacted ? ' reacted' : ''}" data-content="${content}" title="${reacted ? 'Remove your reaction' : 'React'}">${REACTION_EMOJI[content]} ${counts[content]}</button>`;
+            }).join('');
+        const optionsHtml = (Object.keys(REACTION_EMOJI) as ReactionContent[])
+            .map(content => `<button class="reaction-option${viewerReactions.has(`${targetKey}:${content}`) ? ' reacted' : ''}" data-content="${content}">${REACTION_EMOJI[content]}</button>`)
+            .join('');
+        return `${pillsHtml}
+                <button class="reaction-picker-toggle icon-action" title="Add reaction"><span class="codicon codicon-smiley"></span></button>
+                <div class="reaction-picker" hidden>${optionsHtml}</div>`;
+    }
+
+    function rememberCommentBody(kind: CommentKind, comment: { id: number; body?: string | null }) {
+        rawCommentBodies.set(`${kind}:${comment.id}`, comment.body || '');
+    }
+
+    function findCommentElement(commentId: number, kind: CommentKind): HTMLElement | null {
+        return timelineContainer?.querySelector<HTMLElement>(`[data-comment-id="${commentId}"][data-comment-kind="${kind}"]`) || null;
+    }
+
     function generateNestedReviewCommentHtml(comment: ReviewComment): string {
         const user = comment.user;
         const createdAt = comment.created_at ? new Date(comment.created_at).toLocaleString() : '';
         const commentBody = generateCommentBodyHtml(comment); 
+        rememberCommentBody('review', comment);
     
         let filteredHunkHtml = '';
         const diffHunk = comment.diff_hunk;
@@ -421,21 +905,77 @@ type FromExtensionMessage =
         }
     
         // Return full comment HTML 
-        return `<div class="timeline-item nested-review-comment-item">
+        return `<div class="timeline-item nested-review-comment-item" data-comment-id="${comment.id}" data-comment-kind="review">
                     <div class="item-header">
                          ${user ? `<img class="avatar" src="${user.avatar_url || ''}" alt="${escapeHtml(user?.login || 'unknown user')}" width="18" height="18">`: '<span class="avatar-placeholder" style="width:18px; height:18px;"></span>'}
                         <strong class="author">${escapeHtml(user?.login || 'unknown user')}</strong> commented on
                         ${comment.path ? `<span class="file-path">${escapeHtml(comment.path)}</span>` : ''}
                         ${lineRangeString}
                         ${comment.html_url ? `<a class="gh-link" href="${comment.html_url}" title="View comment on GitHub" target="_blank">🔗</a>` : ''}
+                        ${generateCommentActionsHtml(comment)}
                         <span class="timestamp">${createdAt}</span>
                     </div>
                     ${filteredHunkHtml}
                     ${commentBody}
+                    ${generateReactionsHtml('review_comment', comment.id, comment.reactions)}
                 </div>`;
     }
      
 
+    // Reply rendered inside a review thread
+    function generateThreadReplyHtml(reply: ReviewComment): string {
+        const user = reply.user;
+        const createdAt = reply.created_at ? new Date(reply.created_at).toLocaleString() : '';
+        rememberCommentBody('review', reply);
+        return `<div class="thread-reply" data-comment-id="${reply.id}" data-comment-kind="review">
+                    <div class="item-header">
+                        ${user ? `<img class="avatar" src="${user.avatar_url || ''}" alt="${escapeHtml(user?.login || 'unknown user')}" width="18" height="18">`: '<span class="avatar-placeholder" style="width:18px; height:18px;"></span>'}
+                        <strong class="author">${escapeHtml(user?.login || 'unknown user')}</strong> replied
+                        ${reply.html_url ? `<a class="gh-link" href="${reply.html_url}" title="View reply on GitHub" target="_blank">🔗</a>` : ''}
+                        ${generateCommentActionsHtml(reply)}
+                        <span class="timestamp">${createdAt}</span>
+                    </div>
+                    ${generateCommentBodyHtml(reply)}
+                    ${generateReactionsHtml('review_comment', reply.id, reply.reactions)}
+                </div>`;
+    }
+
+    // Root comment + replies + reply box / resolve controls; resolved threads start collapsed
+    function generateReviewThreadHtml(rootComment: ReviewComment, rootHtml: string): string {
+        const replies = rootComment.replies || [];
+        const thread = rootComment.thread;
+        const repliesHtml = replies.map(reply => generateThreadReplyHtml(reply)).join('');
+
+        const resolveButtonHtml = thread
+            ? `<button class="button secondary-button thread-resolve-button" data-thread-id="${escapeHtml(thread.id)}" data-resolved="${thread.isResolved}">
+                    <span class="codicon ${thread.isResolved ? 'codicon-issue-reopened' : 'codicon-check'}"></span> ${thread.isResolved ? 'Unresolve conversation' : 'Resolve conversation'}
+               </button>`
+            : '';
+
+        const actionsHtml = `<div class="thread-actions">
+                    <textarea class="thread-reply-text" placeholder="Reply..."></textarea>
+                    <div class="thread-action-buttons">
+                        ${resolveButtonHtml}
+                        <button class="button primary-button thread-reply-button">
+                            <span class="codicon codicon-reply"></span> Reply
+                        </button>
+                    </div>
+                </div>`;
+
+        const threadBodyHtml = rootHtml + repliesHtml + actionsHtml;
+
+        if (thread?.isResolved) {
+            const replyCount = replies.length > 0 ? ` (${replies.length} ${replies.length === 1 ? 'reply' : 'replies'})` : '';
+            return `<div class="review-thread resolved" data-root-comment-id="${rootComment.id}">
+                        <details>
+                            <summary><span class="codicon codicon-pass"></span> Resolved conversation${rootComment.path ? ` on <span class="file-path">${escapeHtml(rootComment.path)}</span>` : ''}${replyCount}</summary>
+                            ${threadBodyHtml}
+                        </details>
+                    </div>`;
+        }
+        return `<div class="review-thread" data-root-comment-id="${rootComment.id}">${threadBodyHtml}</div>`;
+    }
+
     function generateReviewHtml(review: Review): string {
         const associatedComments = review.associated_comments || [];
         const stateFormatted = formatReviewState(review.state);
@@ -452,7 +992,7 @@ type FromExtensionMessage =
 
         let commentsHtml = '';
         if (associatedComments.length > 0) {
-            commentsHtml = associatedComments.map(comment => generateNestedReviewCommentHtml(comment)).join('');
+            commentsHtml = associatedComments.map(comment => generateReviewThreadHtml(comment, generateNestedReviewCommentHtml(comment))).join('');
         }
 
         return `<div class="timeline-item review-submission-item">
@@ -474,19 +1014,23 @@ type FromExtensionMessage =
         const createdAt = comment.created_at ? new Date(comment.created_at).toLocaleString() : '';
         const diffHunkHtml = (comment.diff_hunk && comment.diff_hunk.trim() !== '') ? `<div class="diff-hunk"><pre><code>${escapeHtml(comment.diff_hunk)}</code></pre></div>` : ''; // Raw hunk here
         const commentBody = generateCommentBodyHtml(comment);
+        rememberCommentBody('review', comment);
 
          if (!commentBody && !diffHunkHtml) return '';
 
-        return `<div class="timeline-item review-comment-item">
+        const commentHtml = `<div class="timeline-item review-comment-item" data-comment-id="${comment.id}" data-comment-kind="review">
                     <div class="item-header">
                         ${user ? `<img class="avatar" src="${user.avatar_url || ''}" alt="${escapeHtml(user?.login || 'unknown user')}" width="20" height="20">`: '<span class="avatar-placeholder"></span>'}
                         <strong class="author"><span class="math-inline">${escapeHtml(user?.login || 'unknown user')}</strong> commented on
                         ${comment.path ? `<span class="file-path">${escapeHtml(comment.path)}</span>` : ''}
                         ${comment.html_url ? `<a class="gh-link" href="${comment.html_url}" title="View on GitHub" target="_blank">🔗</a>` : ''}
+                        ${generateCommentActionsHtml(comment)}
                         <span class="timestamp"><span class="math-inline">${createdAt}</span>
                     </div>
-                    ${commentBody} 
+                    ${commentBody}
+                    ${generateReactionsHtml('review_comment', comment.id, comment.reactions)}
                 </div>`;
+        return generateReviewThreadHtml(comment, commentHtml);
     }      
 
      // Issue comment renderer
@@ -494,17 +1038,20 @@ type FromExtensionMessage =
         const user = comment.user;
         const createdAt = comment.created_at ? new Date(comment.created_at).toLocaleString() : '';
         const commentBody = generateCommentBodyHtml(comment);
+        rememberCommentBody('issue', comment);
 
         if (!commentBody) return '';
 
-        return `<div class="timeline-item issue-comment-item">
+        return `<div class="timeline-item issue-comment-item" data-comment-id="${comment.id}" data-comment-kind="issue">
                     <div class="item-header">
                         ${user ? `<img class="avatar" src="${user.avatar_url || ''}" alt="${escapeHtml(user?.login || 'unknown user')}" width="20" height="20">`: '<span class="avatar-placeholder"></span>'}
                         <strong class="author"><span class="math-inline">${escapeHtml(user?.login || 'unknown user')}</strong> commented
                         ${comment.html_url ? `<a class="gh-link" href="${comment.html_url}" title="View on GitHub" target="_blank">🔗</a>` : ''}
+                        ${generateCommentActionsHtml(comment)}
                         <span class="timestamp"><span class="math-inline">${createdAt}</span>
                     </div>
                     ${commentBody}
+                    ${generateReactionsHtml('issue_comment', comment.id, comment.reactions)}
                 </div>`;
     }
 
@@ -522,12 +1069,15 @@ type FromExtensionMessage =
         const commitTitle = escapeHtml(commitData.commit.message.split('\n')[0]); // Double BS for JS split
         const fullCommitMessage = escapeHtml(commitData.commit.message); // For tooltip
         const commitUrl = commitData.html_url || '';
+        const isExpanded = expandedCommits.has(commitData.sha);
+        const cachedFiles = commitFilesCache.get(commitData.sha);
 
 
         // Construct HTML with new structure and classes
-        return `<div class="timeline-item commit-item">
+        return `<div class="timeline-item commit-item" data-commit-sha="${escapeHtml(commitData.sha)}">
                    <div class="item-header">
                         <div class="commit-info">
+                            <button class="icon-action commit-toggle" title="${isExpanded ? 'Hide' : 'Show'} changed files"><span class="codicon ${isExpanded ? 'codicon-chevron-down' : 'codicon-chevron-right'}"></span></button>
                             <span class="codicon codicon-git-commit"></span>
                             ${avatarUrl ? `<img class="avatar" src="${avatarUrl}" alt="${authorName}" width="16" height="16">` : '<span class="avatar-placeholder" style="width:16px; height:16px;"></span>'}
                             <span class="author">${authorName}</span>
@@ -540,20 +1090,138 @@ type FromExtensionMessage =
                             <span class="timestamp">${commitDate}</span>
                         </div>
                    </div>
+                   <div class="commit-files" ${isExpanded ? '' : 'hidden'}>${isExpanded && cachedFiles ? generateCommitFilesHtml(cachedFiles) : ''}</div>
                </div>`;
    }
 
+    function generateCommitFilesHtml(commitFiles: CommitFilesData): string {
+        if (commitFiles.files.length === 0) {
+            return `<div class="commit-files-empty">No file changes in this commit.</div>`;
+        }
+        const statusLetters: Record<string, string> = { added: 'A', removed: 'D', modified: 'M', renamed: 'R', copied: 'C', changed: 'M', unchanged: 'U' };
+        return `<ul class="commit-files-list">${commitFiles.files.map((file, index) => `
+                    <li class="commit-file" data-file-index="${index}" title="Open diff for ${escapeHtml(file.filename)}">
+                        <span class="commit-file-status status-${escapeHtml(file.status)}">${statusLetters[file.status] || '?'}</span>
+                        <span class="commit-file-name">${file.previousFilename ? `${escapeHtml(file.previousFilename)} &rarr; ` : ''}${escapeHtml(file.filename)}</span>
+                        <span class="commit-file-stats"><span class="additions">+${file.additions}</span> <span class="deletions">-${file.deletions}</span></span>
+                    </li>`).join('')}
+                </ul>`;
+    }
+
+    function setCommitExpanded(commitElement: HTMLElement, sha: string, expanded: boolean) {
+        const filesDiv = commitElement.querySelector<HTMLElement>('.commit-files');
+        const toggleButton = commitElement.querySelector<HTMLElement>('.commit-toggle');
+        if (!filesDiv) { return; }
+
+        if (expanded) { expandedCommits.add(sha); } else { expandedCommits.delete(sha); }
+        filesDiv.hidden = !expanded;
+        toggleButton?.setAttribute('title', `${expanded ? 'Hide' : 'Show'} changed files`);
+        toggleButton?.querySelector('.codicon')?.classList.toggle('codicon-chevron-down', expanded);
+        toggleButton?.querySelector('.codicon')?.classList.toggle('codicon-chevron-right', !expanded);
+        if (!expanded) { return; }
+
+        const cachedFiles = commitFilesCache.get(sha);
+        if (cachedFiles) {
+            filesDiv.innerHTML = generateCommitFilesHtml(cachedFiles);
+        } else {
+            filesDiv.innerHTML = `<div class="commit-files-loading"><span class="codicon codicon-sync spin"></span> Loading changed files...</div>`;
+            vscode.postMessage({ command: 'loadCommitFiles', data: { sha } });
+        }
+    }
+
+
+    // Compact one-line rendering for label, review request, rename, push and state events
+    function generateEventHtml(item: TimelineEventItem): string {
+        let icon = '';
+        let text = '';
+        switch (item.type) {
+            case 'labeled':
+            case 'unlabeled': {
+                const label = item.data.label;
+                icon = 'codicon-tag';
+                text = `${item.type === 'labeled' ? 'added' : 'removed'} the <span class="label-pill" style="border-color: #${escapeHtml(label.color)};"><span class="label-dot" style="background-color: #${escapeHtml(label.color)};"></span>${escapeHtml(label.name)}</span> label`;
+                break;
+            }
+            case 'head_ref_force_pushed':
+                icon = 'codicon-repo-force-push';
+                text = `force-pushed the head branch${item.data.headSha ? ` to <code>${escapeHtml(item.data.headSha.substring(0, 7))}</code>` : ''}`;
+                break;
+            case 'review_requested':
+            case 'review_request_removed': {
+                const reviewer = `${item.data.isTeam ? '<span class="codicon codicon-organization"></span> ' : ''}<strong>${escapeHtml(item.data.reviewer)}</strong>`;
+                const isSelf = !item.data.isTeam && item.data.reviewer === item.data.actor.login;
+                icon = item.type === 'review_requested' ? 'codicon-eye' : 'codicon-eye-closed';
+                text = item.type === 'review_requested'
+                    ? (isSelf ? 'self-requested a review' : `requested a review from ${reviewer}`)
+                    : `removed the review request for ${reviewer}`;
+                break;
+            }
+            case 'renamed':
+                icon = 'codicon-edit';
+                text = `changed the title <del>${escapeHtml(item.data.from)}</del> <strong>${escapeHtml(item.data.to)}</strong>`;
+                break;
+            case 'closed':
+                icon = 'codicon-git-pull-request-closed';
+                text = 'closed this pull request';
+                break;
+            case 'reopened':
+                icon = 'codicon-issue-reopened';
+                text = 'reopened this pull request';
+                break;
+            case 'merged':
+                icon = 'codicon-git-merge';
+                text = `merged this pull request${item.data.commitSha ? ` in <code>${escapeHtml(item.data.commitSha.substring(0, 7))}</code>` : ''}`;
+                break;
+        }
+
+        const actor = item.data.actor;
+        const eventDate = new Date(item.timestamp).toLocaleString();
+        return `<div class="timeline-item event-item event-${item.type}">
+                    <span class="codicon ${icon} event-icon"></span>
+                    ${actor.avatarUrl ? `<img class="avatar" src="${escapeHtml(actor.avatarUrl)}" alt="${escapeHtml(actor.login)}" width="16" height="16">` : ''}
+                    <span class="event-text"><strong class="author">${escapeHtml(actor.login)}</strong> ${text}</span>
+                    <span class="timestamp">${eventDate}</span>
+                </div>`;
+    }
+
 
     //  Rendering Function 
-    function renderTimeline(timelineData: TimelineItem[]) {
+    function renderTimeline(timelineData: TimelineItem[], olderCount: number = 0, loadingOlder: boolean = false) {
         if (!timelineContainer) { console.error("Timeline container not found!"); return; }
         timelineContainer.innerHTML = ''; // Clear previous content ('Loading...' indicator)
 
-        if (!timelineData || timelineData.length === 0) {
+        if ((!timelineData || timelineData.length === 0) && !loadingOlder) {
             timelineContainer.innerHTML = '<p>No timeline activity found for this pull request.</p>';
             return;
         }
 
+        timelineContainer.appendChild(buildTimelineFragment(timelineData || []));
+        renderLoadOlderControl(olderCount, loadingOlder);
+         console.log("Timeline rendering complete.");
+    }
+
+    // Inserts older items above the ones already shown
+    function prependOlderTimeline(items: TimelineItem[], olderCount: number) {
+        if (!timelineContainer) { return; }
+        // Nested review comments are .timeline-item too, only a direct child is a valid reference node
+        const firstItem = timelineContainer.querySelector(':scope > .timeline-item');
+        timelineContainer.insertBefore(buildTimelineFragment(items), firstItem);
+        renderLoadOlderControl(olderCount);
+    }
+
+    function renderLoadOlderControl(olderCount: number, loadingOlder: boolean = false) {
+        if (!timelineContainer) { return; }
+        timelineContainer.querySelector('.load-older-timeline')?.remove();
+        if (olderCount <= 0 && !loadingOlder) { return; }
+        const control = document.createElement('div');
+        control.className = 'load-older-timeline';
+        control.innerHTML = loadingOlder
+            ? `<span class="load-older-status"><span class="codicon codicon-sync spin"></span> Loading older activity...</span>`
+            : `<button id="load-older-button" class="button secondary-button"><span class="codicon codicon-history"></span> Load older activity (${olderCount} more)</button>`;
+        timelineContainer.insertBefore(control, timelineContainer.firstChild);
+    }
+
+    function buildTimelineFragment(timelineData: TimelineItem[]): DocumentFragment {
          const fragment = document.createDocumentFragment();
         timelineData.forEach((item: TimelineItem, index: number) => { 
             let elementHtml = '';
@@ -564,6 +1232,15 @@ type FromExtensionMessage =
                     case 'review_comment': elementHtml = generateReviewCommentHtml(item.data); break; // Should rarely happen if filter works
                     case 'issue_comment': elementHtml = generateIssueCommentHtml(item.data); break;
                     case 'commit': elementHtml = generateCommitHtml(item.data); break;
+                    case 'labeled':
+                    case 'unlabeled':
+                    case 'head_ref_force_pushed':
+                    case 'review_requested':
+                    case 'review_request_removed':
+                    case 'renamed':
+                    case 'closed':
+                    case 'reopened':
+                    case 'merged': elementHtml = generateEventHtml(item); break;
                     default: console.warn("Unknown timeline item type:", (<any>item).type); // Use any type assertion for safety
                 }
             } catch (e) {
@@ -584,8 +1261,7 @@ type FromExtensionMessage =
                  }
             }
         });
-        timelineContainer.appendChild(fragment);
-         console.log("Timeline rendering complete.");
+        return fragment;
     }
 
     // Message Listener 
@@ -599,10 +1275,67 @@ type FromExtensionMessage =
                     refreshButton.classList.remove('loading');
                 }
                 if (timelineContainer) timelineContainer.innerHTML = ''; // Clear loading indicator
-                renderTimeline(message.data.timeline || []);
+                currentPrDetails = message.data;
+                currentUserLogin = message.data.currentUserLogin;
+                viewerReactions = new Set(message.data.viewerReactions || []);
+                renderTimeline(message.data.timeline || [], message.data.olderTimelineCount, message.data.olderTimelineLoading);
+                renderTitle(message.data);
                 renderMetadataHeader(message.data);
+                renderStateControls(message.data);
+                renderMergeOptions(message.data);
+                prefillMergeCommitFields();
+                renderPendingReviewControls(message.data.pendingReview);
                 renderMergeStatus(message.data.mergeable, message.data.mergeable_state);
+                renderChecks(message.data.checks);
                 renderPrDescription(message.data);
+                renderSidebar(message.data.sidebar);
+                break;
+
+            case 'updateChecks':
+                renderChecks(message.data);
+                break;
+
+            case 'commitFiles': {
+                commitFilesCache.set(message.data.sha, message.data);
+                const commitElement = timelineContainer?.querySelector<HTMLElement>(`.commit-item[data-commit-sha="${message.data.sha}"]`);
+                const filesDiv = commitElement?.querySelector<HTMLElement>('.commit-files');
+                if (filesDiv && expandedCommits.has(message.data.sha)) {
+                    filesDiv.innerHTML = generateCommitFilesHtml(message.data);
+                }
+                break;
+            }
+
+            case 'commitFilesFailed': {
+                const commitElement = timelineContainer?.querySelector<HTMLElement>(`.commit-item[data-commit-sha="${message.data.sha}"]`);
+                if (commitElement) { setCommitExpanded(commitElement, message.data.sha, false); }
+                break;
+            }
+
+            case 'prDetailsUpdated':
+                // Only the saved field changes; the other editor may hold unsaved text, and its
+                // value stays the original it was opened against so conflicts are still detected
+                if (currentPrDetails && message.data.field === 'title') {
+                    currentPrDetails.title = message.data.title;
+                    closeTitleEditor();
+                    renderTitle(currentPrDetails);
+                } else if (currentPrDetails) {
+                    currentPrDetails.body = message.data.body;
+                    descriptionAreaDiv?.classList.remove('editing');
+                    renderPrDescription(currentPrDetails);
+                }
+                break;
+
+            case 'prEditFailed': {
+                // Leave the editor open so the user's text is not lost
+                const form = message.data.field === 'title'
+                    ? titleHeading?.querySelector('.pr-title-edit-form')
+                    : descriptionAreaDiv?.querySelector('.pr-body-edit-form');
+                form?.querySelectorAll<HTMLInputElement | HTMLTextAreaElement | HTMLButtonElement>('input, textarea, button').forEach(element => element.disabled = false);
+                break;
+            }
+
+            case 'updateSidebar':
+                renderSidebar(message.data);
                 break;
 
             case 'updateMergeStatus':
@@ -611,7 +1344,90 @@ type FromExtensionMessage =
                 break;
 
             case 'updateTimeline':
-                renderTimeline(message.timeline);
+                message.viewerReactions.forEach(reaction => viewerReactions.add(reaction));
+                renderTimeline(message.timeline, message.olderCount);
+                updateCommitMessages(message.commitMessages);
+                break;
+
+            case 'appendTimeline':
+                message.data.viewerReactions.forEach(reaction => viewerReactions.add(reaction));
+                prependOlderTimeline(message.data.items, message.data.olderCount);
+                break;
+
+            case 'reviewSubmitFailed':
+                resetReviewBox(false);
+                break;
+
+            case 'commentUpdated': {
+                const commentElement = findCommentElement(message.data.commentId, message.data.kind);
+                rawCommentBodies.set(`${message.data.kind}:${message.data.commentId}`, message.data.body || '');
+                if (commentElement) {
+                    commentElement.querySelector(':scope > .comment-edit-form')?.remove();
+                    const template = document.createElement('template');
+                    template.innerHTML = generateCommentBodyHtml({ id: message.data.commentId, body: message.data.body }).trim();
+                    const newBody = template.content.firstChild;
+                    const existingBody = commentElement.querySelector(':scope > .comment-body');
+                    const reactionsBar = commentElement.querySelector(':scope > .reactions-bar');
+                    if (newBody && existingBody) {
+                        existingBody.replaceWith(newBody);
+                    } else if (newBody) {
+                        commentElement.insertBefore(newBody, reactionsBar); // Keep the body above the reactions
+                    } else {
+                        existingBody?.remove();
+                    }
+                    commentElement.classList.remove('editing');
+                }
+                break;
+            }
+
+            case 'commentDeleted': {
+                const commentElement = findCommentElement(message.data.commentId, message.data.kind);
+                // Deleting a thread's root removes the whole thread on GitHub
+                const threadElement = commentElement?.parentElement?.closest('.review-thread');
+                if (threadElement && threadElement.getAttribute('data-root-comment-id') === String(message.data.commentId)) {
+                    threadElement.remove();
+                } else {
+                    commentElement?.remove();
+                }
+                break;
+            }
+
+            case 'commentActionFailed': {
+                const commentElement = findCommentElement(message.data.commentId, message.data.kind);
+                commentElement?.querySelectorAll<HTMLButtonElement | HTMLTextAreaElement>('button, textarea').forEach(el => { el.disabled = false; });
+                break;
+            }
+
+            case 'reactionToggled': {
+                const { target, id, content, add, countChanged } = message.data;
+                const targetKey = `${target}:${id}`;
+                // Unchanged when GitHub already had (or no longer had) the reaction
+                if (countChanged) {
+                    const counts = reactionCounts.get(targetKey) || {};
+                    counts[content] = Math.max(0, (counts[content] || 0) + (add ? 1 : -1));
+                    reactionCounts.set(targetKey, counts);
+                }
+                if (add) { viewerReactions.add(`${targetKey}:${content}`); } else { viewerReactions.delete(`${targetKey}:${content}`); }
+                renderReactionBars(target, id);
+                break;
+            }
+
+            case 'reactionToggleFailed':
+                // Re-render to re-enable the buttons, counts stay as they were
+                renderReactionBars(message.data.target, message.data.id);
+                break;
+
+            case 'threadActionFailed':
+                // Re-enable thread controls so the user can retry
+                timelineContainer?.querySelectorAll<HTMLButtonElement | HTMLTextAreaElement>('.review-thread button, .review-thread textarea').forEach(el => { el.disabled = false; });
+                break;
+
+            case 'updatePendingReview':
+                if (currentPrDetails) {
+                    currentPrDetails.pendingReview = message.data;
+                    renderMetadataHeader(currentPrDetails);
+                }
+                renderPendingReviewControls(message.data);
                 break;
                 
             case 'showError':
@@ -635,6 +1451,11 @@ type FromExtensionMessage =
         }
     });
 
+    // Opens the multi-diff editor for the whole PR
+    viewAllChangesButton?.addEventListener('click', () => {
+        vscode.postMessage({ command: 'viewAllChanges' });
+    });
+
     // Merge Button
     confirmMergeButton?.addEventListener('click', () => { 
         if (confirmMergeButton.disabled || !mergeMethodSelect) return; 
@@ -650,7 +1471,92 @@ type FromExtensionMessage =
         confirmMergeButton.innerHTML = `<span class="codicon codicon-sync spin"></span> Merging...`;
 
         // Send selected method in the message data
-        vscode.postMessage({ command: 'mergePr', data: { merge_method: selectedMethod } });
+        vscode.postMessage({
+            command: 'mergePr',
+            data: {
+                merge_method: selectedMethod,
+                commit_title: selectedMethod === 'rebase' ? undefined : mergeCommitTitleInput?.value.trim(),
+                commit_message: selectedMethod === 'rebase' ? undefined : mergeCommitMessageTextArea?.value,
+                delete_branch: deleteBranchCheckbox?.checked || false,
+            }
+        });
+    });
+
+    mergeMethodSelect?.addEventListener('change', prefillMergeCommitFields);
+
+    // Title and Description Editing
+    editTitleButton?.addEventListener('click', openTitleEditor);
+
+    titleHeading?.addEventListener('click', (event) => {
+        const target = event.target as HTMLElement;
+        if (target.closest('.pr-title-cancel')) {
+            closeTitleEditor();
+            return;
+        }
+        const saveButton = target.closest<HTMLButtonElement>('.pr-title-save');
+        const input = titleHeading.querySelector<HTMLInputElement>('.pr-title-input');
+        if (!saveButton || saveButton.disabled || !input || !currentPrDetails) { return; }
+        const newTitle = input.value.trim();
+        if (!newTitle) { return; }
+        if (newTitle === currentPrDetails.title) {
+            closeTitleEditor();
+            return;
+        }
+        saveButton.disabled = true;
+        input.disabled = true;
+        vscode.postMessage({ command: 'editPrDetails', data: { field: 'title', value: newTitle, original: currentPrDetails.title } });
+    });
+
+    titleHeading?.addEventListener('keydown', (event) => {
+        if (!(event.target as HTMLElement).classList.contains('pr-title-input')) { return; }
+        if (event.key === 'Enter') {
+            titleHeading.querySelector<HTMLButtonElement>('.pr-title-save')?.click();
+        } else if (event.key === 'Escape') {
+            closeTitleEditor();
+        }
+    });
+
+    descriptionAreaDiv?.addEventListener('click', (event) => {
+        const target = event.target as HTMLElement;
+        if (target.closest('.pr-body-edit-button')) {
+            openBodyEditor();
+            return;
+        }
+        if (target.closest('.pr-body-cancel')) {
+            closeBodyEditor();
+            return;
+        }
+        const saveButton = target.closest<HTMLButtonElement>('.pr-body-save');
+        const textArea = descriptionAreaDiv.querySelector<HTMLTextAreaElement>('.pr-body-input');
+        if (!saveButton || saveButton.disabled || !textArea || !currentPrDetails) { return; }
+        saveButton.disabled = true;
+        textArea.disabled = true;
+        vscode.postMessage({ command: 'editPrDetails', data: { field: 'body', value: textArea.value, original: currentPrDetails.body } });
+    });
+
+    // Auto-merge Buttons
+    enableAutoMergeButton?.addEventListener('click', () => {
+        if (enableAutoMergeButton.disabled || !mergeMethodSelect) { return; }
+        enableAutoMergeButton.disabled = true;
+        enableAutoMergeButton.innerHTML = `<span class="codicon codicon-sync spin"></span> Enabling...`;
+        vscode.postMessage({ command: 'enableAutoMerge', data: { merge_method: mergeMethodSelect.value as 'merge' | 'squash' | 'rebase' } });
+    });
+
+    autoMergeStatusDiv?.addEventListener('click', (event) => {
+        const disableButton = (event.target as HTMLElement).closest<HTMLButtonElement>('#disable-auto-merge-button');
+        if (!disableButton || disableButton.disabled) { return; }
+        disableButton.disabled = true;
+        disableButton.innerHTML = `<span class="codicon codicon-sync spin"></span> Disabling...`;
+        vscode.postMessage({ command: 'disableAutoMerge' });
+    });
+
+    // Update Branch Button
+    updateBranchButton?.addEventListener('click', () => {
+        if (updateBranchButton.disabled) { return; }
+        const method = (updateBranchMethodSelect?.value || 'merge') as 'merge' | 'rebase';
+        updateBranchButton.disabled = true;
+        updateBranchButton.innerHTML = `<span class="codicon codicon-sync spin"></span> Updating...`;
+        vscode.postMessage({ command: 'updateBranch', data: { method } });
     });
 
     // Add Comment Button
@@ -686,6 +1592,241 @@ type FromExtensionMessage =
          vscode.postMessage({ command: 'closePr' });
     });
 
+    // Reopen Button
+    reopenButton?.addEventListener('click', () => {
+         if (reopenButton.disabled) { return; }
+         reopenButton.disabled = true;
+         reopenButton.innerHTML = `<span class="codicon codicon-sync spin"></span> Reopening...`;
+         vscode.postMessage({ command: 'reopenPr' });
+    });
+
+    // Draft State Buttons
+    readyForReviewButton?.addEventListener('click', () => {
+         if (readyForReviewButton.disabled) { return; }
+         readyForReviewButton.disabled = true;
+         readyForReviewButton.innerHTML = `<span class="codicon codicon-sync spin"></span> Updating...`;
+         vscode.postMessage({ command: 'markReadyForReview' });
+    });
+
+    convertToDraftButton?.addEventListener('click', () => {
+         if (convertToDraftButton.disabled) { return; }
+         convertToDraftButton.disabled = true;
+         convertToDraftButton.innerHTML = `<span class="codicon codicon-sync spin"></span> Updating...`;
+         vscode.postMessage({ command: 'convertToDraft' });
+    });
+
+    // Submit Review Button
+    submitReviewButton?.addEventListener('click', () => {
+        if (!reviewBodyTextArea || submitReviewButton?.disabled) { return; }
+        const selectedEvent = document.querySelector<HTMLInputElement>('input[name="review-event"]:checked');
+        const reviewEvent = (selectedEvent?.value || 'COMMENT') as 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT';
+        const reviewBody = reviewBodyTextArea.value.trim();
+
+        // GitHub requires a body for everything except approvals, unless draft comments are attached
+        const hasDrafts = (currentPrDetails?.pendingReview?.draftCount || 0) > 0;
+        if (!reviewBody && reviewEvent !== 'APPROVE' && !(hasDrafts && reviewEvent === 'COMMENT')) {
+            vscode.postMessage({ command: 'alert', text: 'Please add a summary before commenting or requesting changes.' });
+            return;
+        }
+
+        submitReviewButton.disabled = true;
+        submitReviewButton.innerHTML = `<span class="codicon codicon-sync spin"></span> Submitting...`;
+        reviewBodyTextArea.disabled = true;
+
+        vscode.postMessage({ command: 'submitReview', data: { event: reviewEvent, body: reviewBody } });
+    });
+
+    function resetReviewBox(clearText: boolean) {
+        if (reviewBodyTextArea) {
+            if (clearText) { reviewBodyTextArea.value = ''; }
+            reviewBodyTextArea.disabled = false;
+        }
+        if (submitReviewButton) {
+            submitReviewButton.disabled = false;
+        }
+        renderPendingReviewControls(currentPrDetails?.pendingReview || null);
+    }
+
+    // Checks Panel Buttons
+    checksStatusDiv?.addEventListener('click', (event) => {
+        const target = event.target as HTMLElement;
+        if (target.closest('#toggle-checks-button')) {
+            checksExpanded = !checksExpanded;
+            const list = checksStatusDiv.querySelector<HTMLElement>('.checks-list');
+            if (list) { list.hidden = !checksExpanded; }
+            const toggleIcon = checksStatusDiv.querySelector('#toggle-checks-button .codicon');
+            toggleIcon?.classList.toggle('codicon-chevron-up', checksExpanded);
+            toggleIcon?.classList.toggle('codicon-chevron-down', !checksExpanded);
+            return;
+        }
+        const rerunButton = target.closest<HTMLButtonElement>('#rerun-checks-button');
+        if (rerunButton && !rerunButton.disabled) {
+            rerunButton.disabled = true;
+            rerunButton.innerHTML = `<span class="codicon codicon-sync spin"></span> Re-running...`;
+            const checkSuiteIds = (rerunButton.dataset.suiteIds || '').split(',').map(Number).filter(id => !isNaN(id) && id > 0);
+            vscode.postMessage({ command: 'rerunFailedChecks', data: { checkSuiteIds } });
+        }
+    });
+
+    // Sidebar Edit Buttons (open a quick pick in the extension host)
+    sidebarDiv?.addEventListener('click', (event) => {
+        const editButton = (event.target as HTMLElement).closest<HTMLButtonElement>('.sidebar-edit-button');
+        if (editButton?.dataset.field) {
+            vscode.postMessage({ command: 'editMetadata', data: { field: editButton.dataset.field } });
+        }
+    });
+
+    // Reactions (delegated on the document, the description area is outside the timeline)
+    document.addEventListener('click', (event) => {
+        const target = event.target as HTMLElement;
+        const bar = target.closest<HTMLElement>('.reactions-bar');
+
+        // Close any open picker when clicking elsewhere
+        document.querySelectorAll<HTMLElement>('.reaction-picker').forEach(picker => {
+            if (!bar || !bar.contains(picker)) { picker.hidden = true; }
+        });
+        if (!bar) { return; }
+
+        if (target.closest('.reaction-picker-toggle')) {
+            const picker = bar.querySelector<HTMLElement>('.reaction-picker');
+            if (picker) { picker.hidden = !picker.hidden; }
+            return;
+        }
+
+        const reactionButton = target.closest<HTMLButtonElement>('.reaction-pill, .reaction-option');
+        if (reactionButton && !reactionButton.disabled) {
+            const content = reactionButton.dataset.content as ReactionContent;
+            const reactionTarget = bar.dataset.reactionTarget as ReactionTargetKind;
+            const id = Number(bar.dataset.reactionId);
+            reactionButton.disabled = true;
+            vscode.postMessage({
+                command: 'toggleReaction',
+                data: { target: reactionTarget, id, content, add: !viewerReactions.has(`${reactionTarget}:${id}:${content}`) }
+            });
+        }
+    });
+
+    // Comment Edit/Delete Actions (delegated, since the timeline is re-rendered)
+    timelineContainer?.addEventListener('click', (event) => {
+        const target = event.target as HTMLElement;
+        const commentElement = target.closest<HTMLElement>('[data-comment-id]');
+        if (!commentElement) { return; }
+        const commentId = Number(commentElement.dataset.commentId);
+        const kind = commentElement.dataset.commentKind as CommentKind;
+
+        if (target.closest('.comment-edit-button')) {
+            if (commentElement.classList.contains('editing')) { return; }
+            commentElement.classList.add('editing');
+            const form = document.createElement('div');
+            form.className = 'comment-edit-form';
+            form.innerHTML = `<textarea class="comment-edit-text"></textarea>
+                <div class="comment-edit-actions">
+                    <button class="button secondary-button comment-edit-cancel">Cancel</button>
+                    <button class="button primary-button comment-edit-save"><span class="codicon codicon-save"></span> Save</button>
+                </div>`;
+            const textArea = form.querySelector<HTMLTextAreaElement>('textarea');
+            if (textArea) { textArea.value = rawCommentBodies.get(`${kind}:${commentId}`) || ''; }
+            commentElement.appendChild(form);
+            textArea?.focus();
+            return;
+        }
+
+        if (target.closest('.comment-edit-cancel')) {
+            commentElement.querySelector(':scope > .comment-edit-form')?.remove();
+            commentElement.classList.remove('editing');
+            return;
+        }
+
+        const saveButton = target.closest<HTMLButtonElement>('.comment-edit-save');
+        if (saveButton && !saveButton.disabled) {
+            const textArea = commentElement.querySelector<HTMLTextAreaElement>(':scope > .comment-edit-form textarea');
+            const newBody = textArea?.value.trim();
+            if (!textArea || !newBody) { return; }
+            saveButton.disabled = true;
+            textArea.disabled = true;
+            vscode.postMessage({ command: 'editComment', data: { commentId, kind, body: newBody } });
+            return;
+        }
+
+        const deleteButton = target.closest<HTMLButtonElement>('.comment-delete-button');
+        if (deleteButton && !deleteButton.disabled) {
+            deleteButton.disabled = true;
+            vscode.postMessage({ command: 'deleteComment', data: { commentId, kind } });
+        }
+    });
+
+    // Review Thread Actions (delegated, since the timeline is re-rendered)
+    timelineContainer?.addEventListener('click', (event) => {
+        const target = event.target as HTMLElement;
+        const threadElement = target.closest<HTMLElement>('.review-thread');
+        if (!threadElement) { return; }
+
+        const replyButton = target.closest<HTMLButtonElement>('.thread-reply-button');
+        if (replyButton && !replyButton.disabled) {
+            const replyTextArea = threadElement.querySelector<HTMLTextAreaElement>('.thread-reply-text');
+            const replyText = replyTextArea?.value.trim();
+            if (!replyTextArea || !replyText) { return; }
+
+            replyButton.disabled = true;
+            replyTextArea.disabled = true;
+            replyButton.innerHTML = `<span class="codicon codicon-sync spin"></span> Replying...`;
+            vscode.postMessage({ command: 'replyToReviewComment', data: { commentId: Number(threadElement.dataset.rootCommentId), text: replyText } });
+            return;
+        }
+
+        const resolveButton = target.closest<HTMLButtonElement>('.thread-resolve-button');
+        if (resolveButton && !resolveButton.disabled && resolveButton.dataset.threadId) {
+            resolveButton.disabled = true;
+            const isResolved = resolveButton.dataset.resolved === 'true';
+            vscode.postMessage({
+                command: isResolved ? 'unresolveReviewThread' : 'resolveReviewThread',
+                data: { threadId: resolveButton.dataset.threadId }
+            });
+        }
+    });
+
+    // Load Older Timeline Button
+    timelineContainer?.addEventListener('click', (event) => {
+        const loadOlderButton = (event.target as HTMLElement).closest<HTMLButtonElement>('#load-older-button');
+        if (!loadOlderButton || loadOlderButton.disabled) { return; }
+        loadOlderButton.disabled = true;
+        loadOlderButton.innerHTML = `<span class="codicon codicon-sync spin"></span> Loading older activity...`;
+        vscode.postMessage({ command: 'loadOlderTimeline' });
+    });
+
+    // Commit Expansion and Per-Commit File Diffs
+    timelineContainer?.addEventListener('click', (event) => {
+        const target = event.target as HTMLElement;
+        const commitElement = target.closest<HTMLElement>('.commit-item[data-commit-sha]');
+        if (!commitElement) { return; }
+        const sha = commitElement.dataset.commitSha || '';
+
+        if (target.closest('.commit-toggle')) {
+            setCommitExpanded(commitElement, sha, !expandedCommits.has(sha));
+            return;
+        }
+
+        const fileElement = target.closest<HTMLElement>('.commit-file');
+        const commitFiles = commitFilesCache.get(sha);
+        if (fileElement && commitFiles) {
+            const file = commitFiles.files[Number(fileElement.dataset.fileIndex)];
+            if (file) {
+                vscode.postMessage({ command: 'showCommitFileDiff', data: { sha, parentSha: commitFiles.parentSha, file } });
+            }
+        }
+    });
+
+    // Start / Discard Review Buttons
+    startReviewButton?.addEventListener('click', () => {
+        if (startReviewButton.disabled) { return; }
+        startReviewButton.disabled = true;
+        vscode.postMessage({ command: 'startReview' });
+    });
+
+    discardReviewButton?.addEventListener('click', () => {
+        vscode.postMessage({ command: 'discardReview' });
+    });
+
     // Signal readiness to extension host
     vscode.postMessage({ command: 'webviewReady' });
     console.log("Webview script initialized and ready.");